@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { flushPromises, mount, type VueWrapper } from '@vue/test-utils';
+import { createPinia, setActivePinia } from 'pinia';
+import { FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import GameBoard3D from '../GameBoard3D.vue';
+import { useGameStore } from '../../../store/game';
+import { generateSudoku } from '../../../core/generator';
+import { getStyleNames } from '../../../core/styles';
+import { installCanvasStub } from './canvas';
+import type { SudokuConfig } from '../../../types/game';
+
+// 用只计数的渲染器代替 WebGLRenderer，jsdom 中没有 WebGL
+vi.mock('three', async importOriginal => {
+  const three = await importOriginal<typeof import('three')>();
+  const { FakeRenderer } = await import('./canvas');
+  return { ...three, WebGLRenderer: FakeRenderer };
+});
+
+const config: SudokuConfig = { size: 9, subRows: 3, subCols: 3, difficulty: 'easy' };
+
+// 等渲染循环画几帧，新创建的几何体和纹理在渲染时才计入 renderer.info
+const waitFrames = async () => {
+  await flushPromises();
+  await new Promise(resolve => setTimeout(resolve, 50));
+};
+
+describe('GameBoard3D', () => {
+  let wrapper: VueWrapper<InstanceType<typeof GameBoard3D>>;
+
+  beforeEach(() => {
+    installCanvasStub();
+    // 测试中不加载字体，棋盘使用图集文字
+    vi.spyOn(FontLoader.prototype, 'load').mockImplementation((_url, _onLoad, _onProgress, onError) => onError?.(new Error('offline')));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setActivePinia(createPinia());
+    const store = useGameStore();
+    store.initGame(config);
+    store.setPuzzleData(generateSudoku(config, { seed: 'render-stats' }));
+  });
+
+  afterEach(() => {
+    wrapper?.unmount();
+    vi.restoreAllMocks();
+  });
+
+  it('returns to the initial geometry and texture count after each full round of style and theme switches', async () => {
+    wrapper = mount(GameBoard3D, { props: { darkMode: false, styleName: 'image' }, attachTo: document.body });
+    await vi.waitFor(() => expect(wrapper.vm.getRenderStats().geometries).toBeGreaterThan(0));
+    await waitFrames();
+
+    // 在任何切换之前记下初始的资源数
+    const baseline = wrapper.vm.getRenderStats();
+
+    const toggleTheme = async () => {
+      for (let i = 0; i < 2; i++) {
+        await wrapper.setProps({ darkMode: !wrapper.props('darkMode') });
+        await waitFrames();
+      }
+    };
+
+    // 一轮：每种样式都切换一次并来回切换主题，最后回到初始的样式和主题
+    const cycle = async () => {
+      await toggleTheme();
+      for (const styleName of getStyleNames().filter(name => name !== 'image')) {
+        await wrapper.setProps({ styleName });
+        await waitFrames();
+        await toggleTheme();
+      }
+      await wrapper.setProps({ styleName: 'image' });
+      await waitFrames();
+    };
+
+    for (let round = 1; round <= 3; round++) {
+      await cycle();
+      const stats = wrapper.vm.getRenderStats();
+      expect(stats.geometries, `第 ${round} 轮后的几何体数`).toBe(baseline.geometries);
+      expect(stats.textures, `第 ${round} 轮后的纹理数`).toBe(baseline.textures);
+    }
+  });
+});
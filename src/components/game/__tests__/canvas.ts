@@ -0,0 +1,71 @@
+import type * as THREE from 'three';
+
+// jsdom 没有 2D 画布：任意方法都什么也不做并返回上下文本身（渐变等对象也用它代替），只有 measureText 返回宽度
+export function installCanvasStub() {
+  const context: CanvasRenderingContext2D = new Proxy({} as CanvasRenderingContext2D, {
+    get(target, property) {
+      if (Reflect.has(target, property)) return Reflect.get(target, property);
+      if (property === 'measureText') return (text: string) => ({ width: text.length * 10 });
+      return () => context;
+    }
+  });
+  HTMLCanvasElement.prototype.getContext = function (type: string) {
+    return type === '2d' ? context : null;
+  } as typeof HTMLCanvasElement.prototype.getContext;
+}
+
+interface Disposable {
+  addEventListener(type: 'dispose', listener: () => void): void;
+  removeEventListener(type: 'dispose', listener: () => void): void;
+}
+
+// 代替 WebGLRenderer：渲染时记下场景中可见物体用到的几何体和纹理，释放（dispose）后移除，与 renderer.info.memory 的计数方式相同
+// 由 vi.mock('three') 的工厂函数加载，不能在运行时引入 three
+export class FakeRenderer {
+  domElement: HTMLCanvasElement;
+  shadowMap = { enabled: false, type: 0 };
+  info = { memory: { geometries: 0, textures: 0 }, programs: [] as unknown[] };
+
+  private geometries = new Set<Disposable>();
+  private textures = new Set<Disposable>();
+
+  constructor(parameters: { canvas?: HTMLCanvasElement } = {}) {
+    this.domElement = parameters.canvas ?? document.createElement('canvas');
+  }
+
+  setSize() {}
+
+  setPixelRatio() {}
+
+  dispose() {}
+
+  render(scene: THREE.Scene) {
+    scene.traverseVisible(object => {
+      const { geometry, material } = object as THREE.Mesh;
+      if (geometry) this.track(this.geometries, geometry);
+      for (const item of Array.isArray(material) ? material : material ? [material] : []) {
+        for (const value of Object.values(item)) {
+          if ((value as THREE.Texture | null)?.isTexture) this.track(this.textures, value as THREE.Texture);
+        }
+      }
+    });
+    if ((scene.background as THREE.Texture | null)?.isTexture) this.track(this.textures, scene.background as THREE.Texture);
+  }
+
+  private track(resources: Set<Disposable>, resource: Disposable) {
+    if (resources.has(resource)) return;
+    resources.add(resource);
+    const onDispose = () => {
+      resources.delete(resource);
+      resource.removeEventListener('dispose', onDispose);
+      this.updateInfo();
+    };
+    resource.addEventListener('dispose', onDispose);
+    this.updateInfo();
+  }
+
+  private updateInfo() {
+    this.info.memory.geometries = this.geometries.size;
+    this.info.memory.textures = this.textures.size;
+  }
+}
@@ -0,0 +1,110 @@
+// 3D 场景的补间动画：每个补间在 duration 秒内把进度从 0 推进到 1，由渲染循环统一驱动
+
+export type Easing = (t: number) => number;
+
+// 常用的缓动曲线
+export const EASINGS: Record<'linear' | 'easeOutCubic' | 'easeInOutCubic' | 'easeOutBack', Easing> = {
+  linear: (t: number) => t,
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  // 先冲过终点再回弹，用于数字弹出
+  easeOutBack: (t: number) => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2)
+};
+
+export interface TweenOptions {
+  duration: number;
+  // 开始前等待的秒数，等待期间保持初始状态
+  delay?: number;
+  easing?: Easing;
+  // 同一个 key 同时只有一个补间，新的补间会替换旧的（如同一格子上重复的弹出动画）
+  key?: string;
+  // 缓动后的进度，0 为初始状态，1 为结束状态
+  onUpdate: (progress: number) => void;
+  onComplete?: () => void;
+}
+
+interface ActiveTween {
+  id: number;
+  options: TweenOptions;
+  elapsed: number;
+}
+
+// 补间时间线：加入的补间立即处于初始状态，之后每帧由 update 推进，结束时调用 onComplete
+export class Timeline {
+  private tweens: ActiveTween[] = [];
+  private nextId = 0;
+
+  // 加入补间，返回它的编号
+  add(options: TweenOptions): number {
+    if (options.key !== undefined) this.cancel(options.key);
+    const id = this.nextId++;
+    this.tweens.push({ id, options, elapsed: 0 });
+    options.onUpdate(0);
+    return id;
+  }
+
+  // 推进 delta 秒；补间在回调中加入的新补间从下一帧开始推进
+  update(delta: number) {
+    const tweens = this.tweens;
+    this.tweens = [];
+    const finished: TweenOptions[] = [];
+    for (const tween of tweens) {
+      const { duration, delay = 0, easing = EASINGS.linear, onUpdate } = tween.options;
+      tween.elapsed += delta;
+      const progress = duration > 0 ? Math.min(Math.max((tween.elapsed - delay) / duration, 0), 1) : 1;
+      onUpdate(easing(progress));
+      if (progress < 1) this.tweens.push(tween);
+      else finished.push(tween.options);
+    }
+    finished.forEach(options => options.onComplete?.());
+  }
+
+  // 停止 key 对应的补间（停在当前状态，不调用 onComplete）
+  cancel(key: string) {
+    this.tweens = this.tweens.filter(tween => tween.options.key !== key);
+  }
+
+  // 停止编号为 id 的补间
+  remove(id: number) {
+    this.tweens = this.tweens.filter(tween => tween.id !== id);
+  }
+
+  // 补间是否还在进行（没有结束，也没有被停止或替换）
+  isRunning(id: number): boolean {
+    return this.tweens.some(tween => tween.id === id);
+  }
+
+  // 停止所有补间
+  clear() {
+    this.tweens = [];
+  }
+
+  get active(): boolean {
+    return this.tweens.length > 0;
+  }
+}
+
+// 棋盘入场：格子按对角线顺序依次从上方落下并放大，整个波次不超过 ENTRANCE_SPREAD 秒
+export const ENTRANCE_DURATION = 0.5;
+export const ENTRANCE_SPREAD = 0.8;
+export const ENTRANCE_HEIGHT = 2;
+
+// 格子入场前的等待时间：从左上角到右下角逐渐推迟
+export const getEntranceDelay = (row: number, col: number, rows: number, cols: number): number =>
+  rows + cols > 2 ? ((row + col) / (rows + cols - 2)) * ENTRANCE_SPREAD : 0;
+
+// 填入数字时数字弹出、格子轻微鼓起
+export const POP_DURATION = 0.35;
+export const POP_CELL_SCALE = 1.15;
+
+// 冲突时格子左右摇晃，幅度逐渐衰减
+export const SHAKE_DURATION = 0.45;
+const SHAKE_AMPLITUDE = 0.15;
+const SHAKE_TIMES = 4;
+
+// 摇晃进度 progress 时的横向偏移
+export const getShakeOffset = (progress: number): number =>
+  Math.sin(progress * Math.PI * 2 * SHAKE_TIMES) * (1 - progress) * SHAKE_AMPLITUDE;
+
+// 两帧之间的时间过长（如页面在后台）时只按这个长度推进，避免动画直接跳到结尾
+export const MAX_FRAME_DELTA = 0.1;
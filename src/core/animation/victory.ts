@@ -0,0 +1,177 @@
+import * as THREE from 'three';
+import { EASINGS } from './index';
+import { CAMERA_TWEEN_KEY } from '../camera';
+import type { Timeline } from './index';
+
+// 胜利特效可以使用的场景对象
+export interface VictoryContext {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  // 相机的注视点（轨道控制的中心）
+  target: THREE.Vector3;
+  board: THREE.Object3D;
+  timeline: Timeline;
+  darkMode: boolean;
+}
+
+// 胜利特效接口：play 开始播放，返回的函数停止特效并释放它创建的资源（可以重复调用）
+export interface VictoryEffect {
+  name: string;
+  label: string;
+  play: (context: VictoryContext) => () => void;
+}
+
+// 粒子爆炸：彩色粒子从棋盘中心向上炸开，受重力落下并逐渐消失
+const ParticleBurst: VictoryEffect = {
+  name: 'particles',
+  label: '粒子爆炸',
+
+  play({ scene, board, timeline, darkMode }) {
+    const count = 600;
+    const duration = 2.5;
+    const gravity = -6;
+    const origin = board.getWorldPosition(new THREE.Vector3()).add(new THREE.Vector3(0, 1, 0));
+    const palette = (darkMode ? [0x00ffff, 0xff00ff, 0xffff00, 0x00ff88] : [0x1e90ff, 0xff6347, 0xffd700, 0x32cd32])
+      .map(hex => new THREE.Color(hex));
+
+    const positions = new Float32Array(count * 3);
+    const colors = new Float32Array(count * 3);
+    const velocities: THREE.Vector3[] = [];
+    for (let i = 0; i < count; i++) {
+      // 向上半球的随机方向，速度大小也随机
+      const direction = new THREE.Vector3().randomDirection();
+      direction.y = Math.abs(direction.y) + 0.3;
+      velocities.push(direction.normalize().multiplyScalar(4 + Math.random() * 6));
+      palette[i % palette.length].toArray(colors, i * 3);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    const material = new THREE.PointsMaterial({
+      size: 0.25,
+      vertexColors: true,
+      transparent: true,
+      depthWrite: false,
+      blending: darkMode ? THREE.AdditiveBlending : THREE.NormalBlending
+    });
+    const points = new THREE.Points(geometry, material);
+    points.frustumCulled = false;
+    scene.add(points);
+
+    let stopped = false;
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      timeline.remove(id);
+      points.removeFromParent();
+      geometry.dispose();
+      material.dispose();
+    };
+
+    // 位置按时间直接算出：p = origin + v·t + g·t²/2
+    const id = timeline.add({
+      duration,
+      onUpdate: progress => {
+        const time = progress * duration;
+        velocities.forEach((velocity, i) => {
+          positions[i * 3] = origin.x + velocity.x * time;
+          positions[i * 3 + 1] = origin.y + velocity.y * time + 0.5 * gravity * time * time;
+          positions[i * 3 + 2] = origin.z + velocity.z * time;
+        });
+        geometry.attributes.position.needsUpdate = true;
+        material.opacity = 1 - progress;
+      },
+      onComplete: stop
+    });
+    return stop;
+  }
+};
+
+// 棋盘旋转：棋盘绕竖直方向转一圈后回到原来的朝向
+const BoardSpin: VictoryEffect = {
+  name: 'spin',
+  label: '棋盘旋转',
+
+  play({ board, timeline }) {
+    const start = board.quaternion.clone();
+    const axis = new THREE.Vector3(0, 1, 0);
+    const spin = new THREE.Quaternion();
+    const id = timeline.add({
+      duration: 2,
+      easing: EASINGS.easeInOutCubic,
+      onUpdate: progress => {
+        board.quaternion.copy(start).premultiply(spin.setFromAxisAngle(axis, progress * Math.PI * 2));
+      }
+    });
+    return () => {
+      if (!timeline.isRunning(id)) return;
+      timeline.remove(id);
+      board.quaternion.copy(start);
+    };
+  }
+};
+
+// 镜头环绕：相机绕棋盘飞一圈，途中压低到 45° 俯角，最后回到原来的位置
+const CameraFlyAround: VictoryEffect = {
+  name: 'flyaround',
+  label: '镜头环绕',
+
+  play({ camera, target, timeline }) {
+    const start = camera.position.clone();
+    const origin = new THREE.Spherical().setFromVector3(start.clone().sub(target));
+    const spherical = new THREE.Spherical();
+    const id = timeline.add({
+      key: CAMERA_TWEEN_KEY,
+      duration: 4,
+      easing: EASINGS.easeInOutCubic,
+      onUpdate: progress => {
+        const dip = Math.sin(progress * Math.PI);
+        spherical.set(
+          origin.radius,
+          origin.phi + (Math.PI / 4 - origin.phi) * dip,
+          origin.theta + progress * Math.PI * 2
+        );
+        camera.position.setFromSpherical(spherical).add(target);
+      }
+    });
+    // 被用户操作或其他视角切换打断时不再复位
+    return () => {
+      if (!timeline.isRunning(id)) return;
+      timeline.remove(id);
+      camera.position.copy(start);
+    };
+  }
+};
+
+// 不播放特效
+const NoEffect: VictoryEffect = {
+  name: 'none',
+  label: '无',
+  play: () => () => {}
+};
+
+// 胜利特效注册表
+export const VICTORY_EFFECTS: Record<string, VictoryEffect> = {
+  [ParticleBurst.name]: ParticleBurst,
+  [BoardSpin.name]: BoardSpin,
+  [CameraFlyAround.name]: CameraFlyAround,
+  [NoEffect.name]: NoEffect
+};
+
+export const DEFAULT_VICTORY_EFFECT = ParticleBurst.name;
+
+// 注册特效
+export function registerVictoryEffect(effect: VictoryEffect) {
+  VICTORY_EFFECTS[effect.name] = effect;
+}
+
+// 获取特效，不存在时使用默认特效
+export function getVictoryEffect(name: string): VictoryEffect {
+  return VICTORY_EFFECTS[name] ?? VICTORY_EFFECTS[DEFAULT_VICTORY_EFFECT];
+}
+
+// 获取特效列表（包含名称）
+export function getVictoryEffectList(): Array<{ name: string; label: string }> {
+  return Object.values(VICTORY_EFFECTS).map(effect => ({ name: effect.name, label: effect.label }));
+}
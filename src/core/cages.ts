@@ -0,0 +1,222 @@
+import type { Cage, CellPosition, SudokuConfig } from '../types/game';
+import type { RegionBorders } from './geometry';
+import { shuffleWith, type RandomSource } from './random';
+
+// 生成笼子时的大小范围；单格笼子只在无法合并时出现
+const MIN_CAGE_SIZE = 2;
+const MAX_CAGE_SIZE = 5;
+
+const NEIGHBOURS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// 格子所在笼子的编号，不在任何笼子中时为 -1
+export function getCageIndex(config: SudokuConfig, row: number, col: number): number {
+  return config.cages?.findIndex(cage => cage.cells.some(cell => cell.row === row && cell.col === col)) ?? -1;
+}
+
+// 每个格子所在笼子的编号网格
+export function getCageMap(config: SudokuConfig): number[][] {
+  const map = Array.from({ length: config.size }, () => Array(config.size).fill(-1));
+  config.cages?.forEach((cage, index) => {
+    for (const { row, col } of cage.cells) map[row][col] = index;
+  });
+  return map;
+}
+
+// 格子四边中哪些是笼子的边界（相邻格不在同一笼子）；map 为 getCageMap 的结果
+export function getCageBorders(map: number[][], row: number, col: number): RegionBorders {
+  const cage = map[row][col];
+  const differs = (r: number, c: number) => map[r]?.[c] !== cage;
+  return {
+    top: differs(row - 1, col),
+    right: differs(row, col + 1),
+    bottom: differs(row + 1, col),
+    left: differs(row, col - 1)
+  };
+}
+
+// 笼子的标签所在格：最上面一行中最左边的格子
+export function getCageAnchor(cage: Cage): CellPosition {
+  return cage.cells.reduce((best, cell) =>
+    cell.row < best.row || (cell.row === best.row && cell.col < best.col) ? cell : best
+  );
+}
+
+// 从 available（位掩码）中取 count 个不同数字使总和为 sum 的所有组合，每个组合用位掩码表示
+export function getCageCombinations(sum: number, count: number, available: number): number[] {
+  const combinations: number[] = [];
+  const pick = (value: number, remaining: number, left: number, mask: number) => {
+    if (left === 0) {
+      if (remaining === 0) combinations.push(mask);
+      return;
+    }
+    for (let v = value; v <= remaining && (1 << (v - 1)) <= available; v++) {
+      if (available & (1 << (v - 1))) pick(v + 1, remaining - v, left - 1, mask | (1 << (v - 1)));
+    }
+  };
+  pick(1, sum, count, 0);
+  return combinations;
+}
+
+// 笼子当前的已填总和、已用数字（位掩码）和空格
+export function getCageState(board: number[][], cage: Cage) {
+  let filled = 0;
+  let used = 0;
+  const empty: CellPosition[] = [];
+  for (const cell of cage.cells) {
+    const value = board[cell.row][cell.col];
+    if (value === 0) {
+      empty.push(cell);
+    } else {
+      filled += value;
+      used |= 1 << (value - 1);
+    }
+  }
+  return { filled, used, empty };
+}
+
+// 笼子的空格还能填的数字（位掩码）：只考虑总和与笼内不重复
+export function getCageCandidates(board: number[][], cage: Cage, size: number): number {
+  const { filled, used, empty } = getCageState(board, cage);
+  const available = ((1 << size) - 1) & ~used;
+  return getCageCombinations(cage.sum - filled, empty.length, available).reduce((mask, combo) => mask | combo, 0);
+}
+
+// 笼子的总和是否已经不可能满足：填满后不等于目标，或剩下的空格无法凑出差额
+export function isCageSumBroken(board: number[][], cage: Cage, size: number): boolean {
+  const { filled, used, empty } = getCageState(board, cage);
+  if (empty.length === 0) return filled !== cage.sum;
+  const available = ((1 << size) - 1) & ~used;
+  return getCageCombinations(cage.sum - filled, empty.length, available).length === 0;
+}
+
+// 检查笼子列表：格子在棋盘内、互不重叠，每个笼子不超过 n 格且目标和可以达到
+export function isValidCageList(cages: unknown, size: number): cages is Cage[] {
+  if (!Array.isArray(cages)) return false;
+  const seen = new Set<number>();
+  return cages.every(cage => {
+    if (!cage || !Array.isArray(cage.cells) || !Number.isInteger(cage.sum)) return false;
+    if (cage.cells.length === 0 || cage.cells.length > size) return false;
+    const cellsValid = cage.cells.every((cell: CellPosition) => {
+      if (!cell || !Number.isInteger(cell.row) || !Number.isInteger(cell.col)) return false;
+      if (cell.row < 0 || cell.col < 0 || cell.row >= size || cell.col >= size) return false;
+      const key = cell.row * size + cell.col;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    return cellsValid && getCageCombinations(cage.sum, cage.cells.length, (1 << size) - 1).length > 0;
+  });
+}
+
+// 按终盘随机划分笼子：每个笼子上下左右连通、笼内数字不重复，覆盖整个棋盘
+export function generateCages(solution: number[][], random: RandomSource): Cage[] {
+  const size = solution.length;
+  const cageOf = Array.from({ length: size }, () => Array(size).fill(-1));
+  const groups: CellPosition[][] = [];
+
+  // 可以加入 group 的相邻空闲格子（数字不与笼内重复）
+  const frontier = (group: CellPosition[]): CellPosition[] => {
+    const values = new Set(group.map(cell => solution[cell.row][cell.col]));
+    const cells: CellPosition[] = [];
+    for (const { row, col } of group) {
+      for (const [dr, dc] of NEIGHBOURS) {
+        const r = row + dr;
+        const c = col + dc;
+        if (cageOf[r]?.[c] !== -1 || values.has(solution[r][c])) continue;
+        if (!cells.some(cell => cell.row === r && cell.col === c)) cells.push({ row: r, col: c });
+      }
+    }
+    return cells;
+  };
+
+  const order: CellPosition[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) order.push({ row, col });
+  }
+  shuffleWith(order, random);
+
+  for (const start of order) {
+    if (cageOf[start.row][start.col] !== -1) continue;
+    const target = MIN_CAGE_SIZE + Math.floor(random() * (Math.min(MAX_CAGE_SIZE, size) - MIN_CAGE_SIZE + 1));
+    const group = [start];
+    cageOf[start.row][start.col] = groups.length;
+    while (group.length < target) {
+      const options = frontier(group);
+      if (options.length === 0) break;
+      const next = options[Math.floor(random() * options.length)];
+      cageOf[next.row][next.col] = groups.length;
+      group.push(next);
+    }
+    groups.push(group);
+  }
+
+  // 尽量把单格笼子并入相邻的笼子
+  groups.forEach((group, index) => {
+    if (group.length !== 1) return;
+    const [{ row, col }] = group;
+    const value = solution[row][col];
+    for (const [dr, dc] of NEIGHBOURS) {
+      const target = cageOf[row + dr]?.[col + dc];
+      if (target === undefined || target === index || groups[target].length === 0) continue;
+      if (groups[target].length >= MAX_CAGE_SIZE + 1) continue;
+      if (groups[target].some(cell => solution[cell.row][cell.col] === value)) continue;
+      groups[target].push({ row, col });
+      cageOf[row][col] = target;
+      group.length = 0;
+      return;
+    }
+  });
+
+  return groups
+    .filter(group => group.length > 0)
+    .map(cells => ({
+      cells: [...cells].sort((a, b) => a.row - b.row || a.col - b.col),
+      sum: cells.reduce((total, cell) => total + solution[cell.row][cell.col], 0)
+    }));
+}
+
+// 把格子分成上下左右连通的几块
+function connectedParts(cells: CellPosition[]): CellPosition[][] {
+  const remaining = [...cells];
+  const parts: CellPosition[][] = [];
+  while (remaining.length > 0) {
+    const part = remaining.splice(0, 1);
+    for (let i = 0; i < part.length; i++) {
+      const { row, col } = part[i];
+      for (let j = remaining.length - 1; j >= 0; j--) {
+        if (Math.abs(remaining[j].row - row) + Math.abs(remaining[j].col - col) === 1) {
+          part.push(...remaining.splice(j, 1));
+        }
+      }
+    }
+    parts.push(part);
+  }
+  return parts;
+}
+
+// 把 cell 从所在笼子中拆出（尽量连同一个相邻格），剩余部分按连通性重新成笼；
+// 用于纯笼子题目：逻辑求解卡住时拆小笼子，直到盘面可解
+export function splitCage(cages: Cage[], solution: number[][], cell: CellPosition): Cage[] {
+  const index = cages.findIndex(cage => cage.cells.some(other => other.row === cell.row && other.col === cell.col));
+  const cage = cages[index];
+  if (!cage || cage.cells.length === 1) return cages;
+
+  const toCage = (cells: CellPosition[]): Cage => ({
+    cells: [...cells].sort((a, b) => a.row - b.row || a.col - b.col),
+    sum: cells.reduce((total, { row, col }) => total + solution[row][col], 0)
+  });
+  const others = cage.cells.filter(other => other.row !== cell.row || other.col !== cell.col);
+
+  // 优先拆出相邻的两格且剩余部分仍然连通，否则只拆出 cell
+  let pieces = [[cell], ...connectedParts(others)];
+  for (const neighbour of others) {
+    if (Math.abs(neighbour.row - cell.row) + Math.abs(neighbour.col - cell.col) !== 1) continue;
+    const rest = others.filter(other => other !== neighbour);
+    if (rest.length > 0 && connectedParts(rest).length === 1) {
+      pieces = [[cell, neighbour], rest];
+      break;
+    }
+  }
+
+  return [...cages.slice(0, index), ...pieces.map(toCage), ...cages.slice(index + 1)];
+}
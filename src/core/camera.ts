@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+import { EASINGS, type TweenOptions } from './animation';
+import type { BoardStyle, CameraPreset } from './styles';
+
+// 相机的视角：相机位置和注视点
+export interface CameraView {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+// 轨道控制的限制：缩放距离、最大俯仰角（不能转到棋盘下方）和注视点离棋盘中心的最大距离
+export const CAMERA_LIMITS = {
+  minDistance: 4,
+  maxDistance: 40,
+  maxPolarAngle: Math.PI / 2 - 0.1,
+  maxPan: 10
+};
+
+// 移动相机的补间共用这个 key（视角切换、镜头环绕），同时只有一个在进行，用户操作视角时一起停止
+export const CAMERA_TWEEN_KEY = 'camera';
+
+// 聚焦子宫格时相机离子宫格中心的距离，视角切换的时长（秒）
+export const FOCUS_DISTANCE = 7;
+export const TRANSITION_DURATION = 0.8;
+
+// 样式的相机预设，第一个为默认视角；没有预设的样式用 getCameraPosition 俯视棋盘中心
+export function getCameraPresets(style: BoardStyle): CameraPreset[] {
+  return style.getCameraPresets?.() ?? [{ name: 'default', label: '默认', position: style.getCameraPosition() }];
+}
+
+// 预设对应的视角，注视点缺省为棋盘中心
+export const getPresetView = (preset: CameraPreset): CameraView => ({
+  position: preset.position.clone(),
+  target: preset.target?.clone() ?? new THREE.Vector3()
+});
+
+// 视角切换的补间：相机位置和注视点一起按缓动曲线移动到 view
+export function createViewTween(camera: THREE.Camera, target: THREE.Vector3, view: CameraView): TweenOptions {
+  const fromPosition = camera.position.clone();
+  const fromTarget = target.clone();
+  return {
+    key: CAMERA_TWEEN_KEY,
+    duration: TRANSITION_DURATION,
+    easing: EASINGS.easeInOutCubic,
+    onUpdate: progress => {
+      camera.position.lerpVectors(fromPosition, view.position, progress);
+      target.lerpVectors(fromTarget, view.target, progress);
+    }
+  };
+}
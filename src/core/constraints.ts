@@ -0,0 +1,137 @@
+import type { CellPosition, ConstraintType, SudokuConfig, VariantConstraint } from '../types/game';
+import { getLineRelations } from './lines';
+import { CUBE_EDGE_RULE } from './cube';
+
+// 规则的中文名称，用于冲突提示和规则选择
+export const CONSTRAINT_LABELS: Record<ConstraintType, string> = {
+  row: '行',
+  column: '列',
+  box: '宫',
+  diagonal: '对角线',
+  'anti-knight': '无马',
+  'anti-king': '无缘',
+  'non-consecutive': '非连续',
+  cage: '笼子',
+  'cage-sum': '笼子总和',
+  thermo: '温度计',
+  arrow: '箭头',
+  palindrome: '回文线',
+  whisper: '德式耳语',
+  renban: '连续线',
+  'cube-edge': '立方体棱'
+};
+
+// 一条变体规则：可以增加新的“数字不重复”区域，也可以约束两两相关的格子
+export interface ConstraintRule {
+  type: ConstraintType;
+  description: string;
+  // 额外的不重复区域（如两条对角线）
+  units?: (config: SudokuConfig) => CellPosition[][];
+  // 两两相关的格子相对于本格的偏移，关系是对称的
+  offsets?: Array<[number, number]>;
+  // 本格填 value 时，相关格子不能填的数字（可以有方向，如温度计上前后两格的限制不同）
+  forbidden?: (value: number, size: number) => number[];
+}
+
+// 与格子存在两两约束的格子
+export interface CellRelation extends CellPosition {
+  rule: ConstraintRule;
+}
+
+const KNIGHT_OFFSETS: Array<[number, number]> = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]
+];
+
+const KING_OFFSETS: Array<[number, number]> = [
+  [-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]
+];
+
+const ORTHOGONAL_OFFSETS: Array<[number, number]> = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// 相关格子不能与本格相同
+const sameValue = (value: number): number[] => [value];
+
+// 变体规则注册表
+export const CONSTRAINT_RULES: Record<VariantConstraint, ConstraintRule> = {
+  diagonal: {
+    type: 'diagonal',
+    description: '两条对角线上的数字也不能重复',
+    units: ({ size }) => [
+      Array.from({ length: size }, (_, i) => ({ row: i, col: i })),
+      Array.from({ length: size }, (_, i) => ({ row: i, col: size - 1 - i }))
+    ]
+  },
+  'anti-knight': {
+    type: 'anti-knight',
+    description: '相隔一个国际象棋马步的两格不能填相同数字',
+    offsets: KNIGHT_OFFSETS,
+    forbidden: sameValue
+  },
+  'anti-king': {
+    type: 'anti-king',
+    description: '相邻（含斜向相邻）的两格不能填相同数字',
+    offsets: KING_OFFSETS,
+    forbidden: sameValue
+  },
+  'non-consecutive': {
+    type: 'non-consecutive',
+    description: '上下左右相邻的两格不能填连续的数字',
+    offsets: ORTHOGONAL_OFFSETS,
+    forbidden: (value, size) => [value - 1, value + 1].filter(other => other >= 1 && other <= size)
+  }
+};
+
+// 杀手数独：同一笼子的格子两两不能相同（总和另行检查）
+export const CAGE_RULE: ConstraintRule = {
+  type: 'cage',
+  description: '同一笼子里的数字不能重复',
+  forbidden: sameValue
+};
+
+// 配置中启用的变体规则（立方体数独总是带有跨棱的区域）
+export function getActiveRules(config: SudokuConfig): ConstraintRule[] {
+  const rules = (config.constraints ?? []).map(type => CONSTRAINT_RULES[type]);
+  return config.cube ? [...rules, CUBE_EDGE_RULE] : rules;
+}
+
+// 检查规则列表：只能包含已注册的变体规则且不重复
+export function isValidConstraintList(constraints: unknown): constraints is VariantConstraint[] {
+  return Array.isArray(constraints)
+    && constraints.every(type => typeof type === 'string' && type in CONSTRAINT_RULES)
+    && new Set(constraints).size === constraints.length;
+}
+
+// 与 (row, col) 存在两两约束的格子（变体规则、同一笼子和线条规则）
+export function getRelations(config: SudokuConfig, row: number, col: number): CellRelation[] {
+  const relations: CellRelation[] = [];
+  for (const rule of getActiveRules(config)) {
+    for (const [dr, dc] of rule.offsets ?? []) {
+      const r = row + dr;
+      const c = col + dc;
+      if (r >= 0 && c >= 0 && r < config.size && c < config.size) {
+        relations.push({ row: r, col: c, rule });
+      }
+    }
+  }
+  for (const cage of config.cages ?? []) {
+    if (!cage.cells.some(cell => cell.row === row && cell.col === col)) continue;
+    for (const cell of cage.cells) {
+      if (cell.row !== row || cell.col !== col) relations.push({ ...cell, rule: CAGE_RULE });
+    }
+  }
+  relations.push(...getLineRelations(config, row, col));
+  return relations;
+}
+
+// 两两约束下两个数字是否冲突
+export const violatesRelation = (relation: CellRelation, value: number, other: number, size: number): boolean =>
+  relation.rule.forbidden!(value, size).includes(other);
+
+// 相关格子已填 other 时，本格因此不能填的数字
+export function getBlockedValues(relation: CellRelation, other: number, size: number): number[] {
+  const blocked: number[] = [];
+  for (let value = 1; value <= size; value++) {
+    if (violatesRelation(relation, value, other, size)) blocked.push(value);
+  }
+  return blocked;
+}
@@ -0,0 +1,108 @@
+import type { CellPosition, SudokuConfig } from '../types/game';
+import type { ConstraintRule } from './constraints';
+import { formatCellPosition } from '../utils/formatter';
+
+// 立方体数独：六个面各是一个 n×n 数独，按面的顺序纵向存放在 6n×n 的盘面中（第 f 个面占第 f·n 到 f·n+n-1 行）
+export const CUBE_FACES = 6;
+
+// 各面的名称，顺序与盘面中的存放顺序一致
+export const CUBE_FACE_LABELS = ['前', '右', '后', '左', '上', '下'];
+
+export type Vector3Tuple = [number, number, number];
+
+// 从立方体外面看一个面时的朝向：法向、列增加的方向和行增加的方向
+export interface CubeFaceFrame {
+  normal: Vector3Tuple;
+  right: Vector3Tuple;
+  down: Vector3Tuple;
+}
+
+// 前、右、后、左四个面绕竖直方向一圈，行都朝下；上面的底边接前面，下面的顶边接前面
+export const CUBE_FACE_FRAMES: CubeFaceFrame[] = [
+  { normal: [0, 0, 1], right: [1, 0, 0], down: [0, -1, 0] },
+  { normal: [1, 0, 0], right: [0, 0, -1], down: [0, -1, 0] },
+  { normal: [0, 0, -1], right: [-1, 0, 0], down: [0, -1, 0] },
+  { normal: [-1, 0, 0], right: [0, 0, 1], down: [0, -1, 0] },
+  { normal: [0, 1, 0], right: [1, 0, 0], down: [0, 0, 1] },
+  { normal: [0, -1, 0], right: [1, 0, 0], down: [0, 0, -1] }
+];
+
+// 平面展开图中各面所在的位置 [行, 列]（以面为单位，共 3 行 4 列）
+export const CUBE_NET: Array<[number, number]> = [[1, 1], [1, 2], [1, 3], [1, 0], [0, 1], [2, 1]];
+
+// 跨棱的一段在棱两侧各取的格子数：4×4 时正好是完整的 n 格，更大的棋盘上不足 n 格，只要求不重复（取满 n 格时 6×6 无解）
+const CUBE_SEAM_DEPTH = 2;
+
+// 行和列跨过立方体的棱延续到相邻的面：跨棱的每一行、每一列在棱两侧各取 CUBE_SEAM_DEPTH 格，组成不重复区域
+export const CUBE_EDGE_RULE: ConstraintRule = {
+  type: 'cube-edge',
+  description: '行和列跨过立方体的棱延续到相邻的面，跨棱的一段（棱两侧各两格）数字不能重复',
+  units: config => getSeamUnits(config.size)
+};
+
+// 格子所在的面（普通数独只有第 0 面）
+export const getFaceOf = (config: SudokuConfig, row: number): number => Math.floor(row / config.size);
+
+// 格子在立方体表面上的中心坐标（以半个格子为单位，立方体中心为原点，各分量都是整数）
+const cellPoint = (size: number, face: number, row: number, col: number): Vector3Tuple => {
+  const { normal, right, down } = CUBE_FACE_FRAMES[face];
+  const u = 2 * col + 1 - size;
+  const v = 2 * row + 1 - size;
+  return [0, 1, 2].map(axis => normal[axis] * size + right[axis] * u + down[axis] * v) as Vector3Tuple;
+};
+
+// 每种规模的跨棱区域只计算一次
+// 每种规模的跨棱区域只计算一次
+const seamCache = new Map<number, CellPosition[][]>();
+
+// 跨棱的区域：从棱边上的格子朝面内取 CUBE_SEAM_DEPTH 格，再从棱另一侧相邻的格子（从格子中心朝棱走半格到达棱，
+// 再沿相邻的面走半格）朝那个面内取同样多的格子；每一段从两侧各找到一次，只保留一个
+function getSeamUnits(size: number): CellPosition[][] {
+  const cached = seamCache.get(size);
+  if (cached) return cached;
+
+  const cells = new Map<string, CellPosition>();
+  for (let face = 0; face < CUBE_FACES; face++) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        cells.set(cellPoint(size, face, row, col).join(), { row: face * size + row, col });
+      }
+    }
+  }
+  // 从 start 出发沿 direction 每次走一格（两个单位），取 count 个格子
+  const walk = (start: Vector3Tuple, direction: Vector3Tuple, count: number) =>
+    Array.from({ length: count }, (_, k) => cells.get(start.map((x, axis) => x + 2 * k * direction[axis]).join())!);
+  const negate = (vector: Vector3Tuple) => vector.map(x => -x) as Vector3Tuple;
+
+  const units = new Map<string, CellPosition[]>();
+  for (let face = 0; face < CUBE_FACES; face++) {
+    const { normal, right, down } = CUBE_FACE_FRAMES[face];
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const steps: Array<[Vector3Tuple, boolean]> = [
+          [right, col === size - 1],
+          [negate(right), col === 0],
+          [down, row === size - 1],
+          [negate(down), row === 0]
+        ];
+        const point = cellPoint(size, face, row, col);
+        for (const [step, onEdge] of steps) {
+          if (!onEdge) continue;
+          const across = point.map((x, axis) => x + step[axis] - normal[axis]) as Vector3Tuple;
+          const unit = [...walk(point, negate(step), CUBE_SEAM_DEPTH), ...walk(across, negate(normal), CUBE_SEAM_DEPTH)];
+          const key = unit.map(cell => cell.row * size + cell.col).sort((a, b) => a - b).join();
+          if (!units.has(key)) units.set(key, unit);
+        }
+      }
+    }
+  }
+  const seams = [...units.values()];
+  seamCache.set(size, seams);
+  return seams;
+}
+
+// 格子坐标的文字描述；立方体数独带上面的名称，行号从该面的第一行算起
+export function formatBoardCell(config: SudokuConfig, row: number, col: number): string {
+  if (!config.cube) return formatCellPosition(row, col);
+  return `${CUBE_FACE_LABELS[getFaceOf(config, row)]}面 ${formatCellPosition(row % config.size, col)}`;
+}
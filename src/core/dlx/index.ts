@@ -0,0 +1,440 @@
+import type { SudokuConfig } from '../../types/game';
+import { getUnits } from '../geometry';
+import { getBlockedValues, getRelations } from '../constraints';
+import { getCageCandidates, getCageIndex } from '../cages';
+import { getArrowsOf } from '../lines';
+import { getBoardCols, getBoardRows, isBoardCell } from '../grids';
+
+export interface DancingLinksOptions {
+  // 打乱候选行的顺序（用于随机生成终盘）
+  shuffle?: (rows: number[]) => void;
+  // 每找到一个解时回调，参数为选中的行编号
+  onSolution?: (rows: number[]) => void;
+  // 最多尝试的候选行数，超出后放弃搜索（用于限制无解盘面上的耗时）
+  maxSteps?: number;
+  // 选中候选行前的额外检查，返回 false 时跳过该行（用于笼子总和这类无法表示为精确覆盖的约束）
+  accept?: (rowId: number) => boolean;
+  // 撤销 accept 通过的行
+  release?: (rowId: number) => void;
+}
+
+// 搜索时附加的检查（笼子总和、箭头之和等）
+type SearchHooks = Pick<DancingLinksOptions, 'accept' | 'release'>;
+
+// 随机求终盘时每个格子允许的搜索步数；不规则区域或变体规则可能无解，限制步数避免卡住
+export const SEARCH_STEPS_PER_CELL = 50;
+
+// 舞蹈链（Dancing Links）精确覆盖求解器，节点用平行数组存储
+export class DancingLinks {
+  private left: number[] = [];
+  private right: number[] = [];
+  private up: number[] = [];
+  private down: number[] = [];
+  private column: number[] = [];
+  private rowOf: number[] = [];
+  private size: number[] = [];
+
+  // 上一次搜索是否因为超出 maxSteps 而中止
+  aborted = false;
+
+  // 节点 0 为根节点，1..columnCount 为必须恰好覆盖一次的列头，
+  // 其后的 secondaryCount 个次要列最多覆盖一次，不加入根节点的链表
+  constructor(columnCount: number, secondaryCount = 0) {
+    for (let i = 0; i <= columnCount + secondaryCount; i++) {
+      this.left[i] = i - 1;
+      this.right[i] = i + 1;
+      this.up[i] = i;
+      this.down[i] = i;
+      this.column[i] = i;
+      this.rowOf[i] = -1;
+      this.size[i] = 0;
+    }
+    this.left[0] = columnCount;
+    this.right[columnCount] = 0;
+    for (let i = columnCount + 1; i <= columnCount + secondaryCount; i++) {
+      this.left[i] = i;
+      this.right[i] = i;
+    }
+  }
+
+  // 添加一行，columns 为该行覆盖的列（从 0 开始）
+  addRow(rowId: number, columns: number[]): void {
+    let first = -1;
+
+    for (const col of columns) {
+      const header = col + 1;
+      const node = this.column.length;
+
+      this.column[node] = header;
+      this.rowOf[node] = rowId;
+      this.size[header]++;
+
+      // 插入到列的底部
+      this.up[node] = this.up[header];
+      this.down[node] = header;
+      this.down[this.up[header]] = node;
+      this.up[header] = node;
+
+      // 插入到行的末尾
+      if (first < 0) {
+        this.left[node] = node;
+        this.right[node] = node;
+        first = node;
+      } else {
+        this.left[node] = this.left[first];
+        this.right[node] = first;
+        this.right[this.left[first]] = node;
+        this.left[first] = node;
+      }
+    }
+  }
+
+  // 搜索至多 limit 个解，返回找到的解的个数
+  solve(limit: number, options: DancingLinksOptions = {}): number {
+    const partial: number[] = [];
+    let count = 0;
+    let steps = 0;
+    this.aborted = false;
+
+    const search = (): boolean => {
+      if (this.right[0] === 0) {
+        count++;
+        options.onSolution?.([...partial]);
+        return count >= limit;
+      }
+
+      // 选择候选行最少的列
+      let chosen = this.right[0];
+      for (let col = this.right[chosen]; col !== 0; col = this.right[col]) {
+        if (this.size[col] < this.size[chosen]) chosen = col;
+      }
+      if (this.size[chosen] === 0) return false;
+
+      this.cover(chosen);
+
+      const rows: number[] = [];
+      for (let node = this.down[chosen]; node !== chosen; node = this.down[node]) {
+        rows.push(node);
+      }
+      options.shuffle?.(rows);
+
+      let done = false;
+      for (const node of rows) {
+        if (options.maxSteps !== undefined && ++steps > options.maxSteps) {
+          this.aborted = true;
+          done = true;
+          break;
+        }
+        if (options.accept && !options.accept(this.rowOf[node])) continue;
+        partial.push(this.rowOf[node]);
+        for (let j = this.right[node]; j !== node; j = this.right[j]) this.cover(this.column[j]);
+
+        done = search();
+
+        for (let j = this.left[node]; j !== node; j = this.left[j]) this.uncover(this.column[j]);
+        partial.pop();
+        options.release?.(this.rowOf[node]);
+        if (done) break;
+      }
+
+      this.uncover(chosen);
+      return done;
+    };
+
+    search();
+    return count;
+  }
+
+  private cover(header: number): void {
+    this.right[this.left[header]] = this.right[header];
+    this.left[this.right[header]] = this.left[header];
+    for (let i = this.down[header]; i !== header; i = this.down[i]) {
+      for (let j = this.right[i]; j !== i; j = this.right[j]) {
+        this.down[this.up[j]] = this.down[j];
+        this.up[this.down[j]] = this.up[j];
+        this.size[this.column[j]]--;
+      }
+    }
+  }
+
+  private uncover(header: number): void {
+    for (let i = this.up[header]; i !== header; i = this.up[i]) {
+      for (let j = this.left[i]; j !== i; j = this.left[j]) {
+        this.size[this.column[j]]++;
+        this.down[this.up[j]] = j;
+        this.up[this.down[j]] = j;
+      }
+    }
+    this.right[this.left[header]] = header;
+    this.left[this.right[header]] = header;
+  }
+}
+
+// 把数独盘面转换为精确覆盖问题：
+// 每个候选 (行, 列, 数字) 是一行，覆盖“格子有值”以及格子所在每个区域（行、列、宫、对角线等）的“区域有该数”列；
+// 不足 n 格的区域（立方体数独跨棱的一段）不要求每个数字都出现，它的“区域有该数”列是次要列；
+// 两两约束（无马、无缘、非连续）中互相冲突的一对候选共享一个次要列，因此最多选中其中一个；
+// 多宫格数独的空位不参与覆盖
+function buildSudokuCover(board: number[][], config: SudokuConfig) {
+  const { size } = config;
+  const rows = getBoardRows(config);
+  const cols = getBoardCols(config);
+  const cellCount = rows * cols;
+  const units = getUnits(config);
+  const candidates: Array<{ row: number; col: number; value: number }> = [];
+
+  // 需要填数的格子依次编号，作为“格子有值”的主要列
+  const cellColumn = Array(cellCount).fill(-1);
+  let activeCount = 0;
+  for (let cell = 0; cell < cellCount; cell++) {
+    if (isBoardCell(config, Math.floor(cell / cols), cell % cols)) cellColumn[cell] = activeCount++;
+  }
+
+  // 每个格子所在的区域
+  const cellUnits = Array.from({ length: cellCount }, () => [] as number[]);
+  units.forEach((unit, unitId) => {
+    for (const { row, col } of unit.cells) cellUnits[row * cols + col].push(unitId);
+  });
+
+  // 预先统计已填数字，空格只加入不冲突的候选
+  const unitUsed = units.map(() => new Set<number>());
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const value = board[row][col];
+      if (value === 0) continue;
+      for (const unitId of cellUnits[row * cols + col]) unitUsed[unitId].add(value);
+    }
+  }
+
+  const cellValues: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const given = board[row][col];
+      if (cellColumn[row * cols + col] < 0) {
+        cellValues.push([]);
+        continue;
+      }
+      if (given !== 0) {
+        cellValues.push([given]);
+        continue;
+      }
+      const used = new Set<number>();
+      for (const unitId of cellUnits[row * cols + col]) unitUsed[unitId].forEach(value => used.add(value));
+      for (const relation of getRelations(config, row, col)) {
+        const other = board[relation.row][relation.col];
+        if (other) getBlockedValues(relation, other, size).forEach(value => used.add(value));
+      }
+      const cage = config.cages?.[getCageIndex(config, row, col)];
+      const cageMask = cage ? getCageCandidates(board, cage, size) : (1 << size) - 1;
+      const values: number[] = [];
+      for (let value = 1; value <= size; value++) {
+        if (!used.has(value) && cageMask & (1 << (value - 1))) values.push(value);
+      }
+      cellValues.push(values);
+    }
+  }
+
+  // 各区域“区域有该数”列的起始编号：满 n 格的区域排在主要列中，其余的区域排在次要列的开头
+  const fullUnits = units.filter(unit => unit.cells.length === size).length;
+  const primaryCount = activeCount + fullUnits * size;
+  let fullIndex = 0;
+  let partialIndex = 0;
+  const unitColumn = units.map(unit => (unit.cells.length === size
+    ? activeCount + size * fullIndex++
+    : primaryCount + size * partialIndex++));
+
+  // 两两约束：为每一对互相冲突的候选分配一个次要列
+  const secondary = new Map<number, number[]>();
+  let secondaryCount = partialIndex * size;
+  const link = (cell: number, value: number, column: number) => {
+    const key = cell * size + value - 1;
+    secondary.set(key, [...(secondary.get(key) ?? []), column]);
+  };
+  for (let cell = 0; cell < cellCount; cell++) {
+    for (const relation of getRelations(config, Math.floor(cell / cols), cell % cols)) {
+      const other = relation.row * cols + relation.col;
+      if (other < cell) continue;
+      for (const value of cellValues[cell]) {
+        for (const forbidden of relation.rule.forbidden!(value, size)) {
+          if (!cellValues[other].includes(forbidden)) continue;
+          const column = primaryCount + secondaryCount++;
+          link(cell, value, column);
+          link(other, forbidden, column);
+        }
+      }
+    }
+  }
+
+  const dlx = new DancingLinks(primaryCount, secondaryCount);
+  for (let cell = 0; cell < cellCount; cell++) {
+    const row = Math.floor(cell / cols);
+    const col = cell % cols;
+    for (const value of cellValues[cell]) {
+      dlx.addRow(candidates.length, [
+        cellColumn[cell],
+        ...cellUnits[cell].map(unitId => unitColumn[unitId] + value - 1),
+        ...(secondary.get(cell * size + value - 1) ?? [])
+      ]);
+      candidates.push({ row, col, value });
+    }
+  }
+
+  const hooks = combineHooks([createCageHooks(config, candidates), createArrowHooks(config, candidates)]);
+  return { dlx, candidates, hooks };
+}
+
+// 笼子总和的剪枝：记录每个笼子已选数字的和与个数，剩余空格无论填什么都凑不出差额时拒绝该候选
+function createCageHooks(
+  config: SudokuConfig,
+  candidates: Array<{ row: number; col: number; value: number }>
+): SearchHooks {
+  const cages = config.cages ?? [];
+  if (cages.length === 0) return {};
+
+  const cageOf = candidates.map(({ row, col }) => getCageIndex(config, row, col));
+  const sums = cages.map(() => 0);
+  const counts = cages.map(() => 0);
+  const used = cages.map(() => 0);
+
+  // 从未用过的数字中取 left 个，能否使总和为 remaining（只比较最小和与最大和）
+  const reachable = (remaining: number, left: number, mask: number): boolean => {
+    const free: number[] = [];
+    for (let value = 1; value <= config.size; value++) {
+      if (!(mask & (1 << (value - 1)))) free.push(value);
+    }
+    if (free.length < left) return false;
+    const min = free.slice(0, left).reduce((total, value) => total + value, 0);
+    const max = free.slice(free.length - left).reduce((total, value) => total + value, 0);
+    return remaining >= min && remaining <= max;
+  };
+
+  return {
+    accept: rowId => {
+      const cage = cageOf[rowId];
+      if (cage < 0) return true;
+      const { value } = candidates[rowId];
+      const bit = 1 << (value - 1);
+      const left = cages[cage].cells.length - counts[cage] - 1;
+      if (used[cage] & bit || !reachable(cages[cage].sum - sums[cage] - value, left, used[cage] | bit)) return false;
+      sums[cage] += value;
+      counts[cage]++;
+      used[cage] |= bit;
+      return true;
+    },
+    release: rowId => {
+      const cage = cageOf[rowId];
+      if (cage < 0) return;
+      const { value } = candidates[rowId];
+      sums[cage] -= value;
+      counts[cage]--;
+      used[cage] &= ~(1 << (value - 1));
+    }
+  };
+}
+
+// 箭头之和的剪枝：记录每个箭头圆圈的值、箭头上已选数字的和与个数，圆圈无法等于箭头之和时拒绝该候选
+function createArrowHooks(
+  config: SudokuConfig,
+  candidates: Array<{ row: number; col: number; value: number }>
+): SearchHooks {
+  const arrows = (config.lines ?? []).filter(line => line.type === 'arrow');
+  if (arrows.length === 0) return {};
+
+  // 每个候选所在的箭头及其在箭头上的位置（线条之间不共用格子）
+  const arrowOf = candidates.map(({ row, col }) => {
+    const [found] = getArrowsOf(config, row, col);
+    return found ? { arrow: arrows.indexOf(found.line), index: found.index } : null;
+  });
+  const circles = arrows.map(() => 0);
+  const sums = arrows.map(() => 0);
+  const counts = arrows.map(() => 0);
+
+  return {
+    accept: rowId => {
+      const found = arrowOf[rowId];
+      if (!found) return true;
+      const { arrow, index } = found;
+      const { value } = candidates[rowId];
+      const circle = index === 0 ? value : circles[arrow];
+      const sum = index === 0 ? sums[arrow] : sums[arrow] + value;
+      const empty = arrows[arrow].cells.length - 1 - counts[arrow] - (index === 0 ? 0 : 1);
+      const feasible = circle === 0
+        ? sum + empty <= config.size
+        : sum + empty <= circle && circle <= sum + empty * config.size;
+      if (!feasible) return false;
+      if (index === 0) {
+        circles[arrow] = value;
+      } else {
+        sums[arrow] += value;
+        counts[arrow]++;
+      }
+      return true;
+    },
+    release: rowId => {
+      const found = arrowOf[rowId];
+      if (!found) return;
+      if (found.index === 0) {
+        circles[found.arrow] = 0;
+      } else {
+        sums[found.arrow] -= candidates[rowId].value;
+        counts[found.arrow]--;
+      }
+    }
+  };
+}
+
+// 依次调用多组检查；某一组拒绝时撤销之前已经通过的检查
+function combineHooks(hooks: SearchHooks[]): SearchHooks {
+  const active = hooks.filter(hook => hook.accept);
+  if (active.length <= 1) return active[0] ?? {};
+  return {
+    accept: rowId => {
+      for (let i = 0; i < active.length; i++) {
+        if (active[i].accept!(rowId)) continue;
+        for (let j = i - 1; j >= 0; j--) active[j].release!(rowId);
+        return false;
+      }
+      return true;
+    },
+    release: rowId => active.forEach(hook => hook.release!(rowId))
+  };
+}
+
+// 统计盘面的解的个数，数到 limit 即停止（默认 2，足以判断唯一解）；提供 maxSteps 时超出步数返回 null
+export function countSolutions(board: number[][], config: SudokuConfig, limit = 2, maxSteps?: number): number | null {
+  const { dlx, hooks } = buildSudokuCover(board, config);
+  const count = dlx.solve(limit, { ...hooks, maxSteps });
+  return dlx.aborted ? null : count;
+}
+
+// 求出盘面的一个解；提供 shuffle 时得到随机的解，提供 maxSteps 时超出步数返回 null
+export function solveExactly(
+  board: number[][],
+  config: SudokuConfig,
+  shuffle?: (rows: number[]) => void,
+  maxSteps?: number
+): number[][] | null {
+  const { dlx, candidates, hooks } = buildSudokuCover(board, config);
+  let solution: number[][] | null = null;
+
+  dlx.solve(1, {
+    ...hooks,
+    shuffle,
+    maxSteps,
+    onSolution: rows => {
+      solution = board.map(row => [...row]);
+      for (const rowId of rows) {
+        const { row, col, value } = candidates[rowId];
+        solution[row][col] = value;
+      }
+    }
+  });
+
+  return solution;
+}
+
+// 检查盘面是否有唯一解；提供 maxSteps 时，超出步数仍未得出结论视为不唯一
+export function hasUniqueSolution(board: number[][], config: SudokuConfig, maxSteps?: number): boolean {
+  const { dlx, hooks } = buildSudokuCover(board, config);
+  return dlx.solve(2, { ...hooks, maxSteps }) === 1 && !dlx.aborted;
+}
@@ -1,240 +1,294 @@
-import type { SudokuConfig } from '../types/game';
+import type { Cage, Difficulty, DifficultyGrade, GenerationProgress, KillerMode, LineClue, LineType, SudokuConfig } from '../types/game';
+import { DIFFICULTY_ORDER, DIFFICULTY_LABELS, DifficultyGrader, compareDifficulty } from './grader';
+import { solveLogically, TECHNIQUE_ORDER } from './solver';
+import { hasUniqueSolution, SEARCH_STEPS_PER_CELL, solveExactly } from './dlx';
+import { createRandom, createSeed, shuffleWith, type RandomSource } from './random';
+import { generateRegions } from './regions';
+import { generateCages, splitCage } from './cages';
+import { generateLines } from './lines';
+import { getBoardCells, getBoardCols, getBoardRows, isBoardCell } from './grids';
+
+// 按难度生成题目时的最大尝试次数
+const MAX_GRADING_ATTEMPTS = 100;
+
+// 挖空后难度仍低于目标时交换提示数位置的次数
+const HARDENING_STEPS = 150;
+
+// 限定步数求终盘的最大尝试次数（每次步数加倍），全部失败时认为当前规则无解
+const MAX_SOLUTION_ATTEMPTS = 12;
+
+// 证明唯一解时每个格子允许的搜索步数，超出时保留该格；变体规则的约束更多，放宽步数才能挖到足够难
+const UNIQUENESS_STEPS_PER_CELL = 100;
+const VARIANT_UNIQUENESS_STEPS_PER_CELL = 500;
+
+// 小棋盘挖到最少提示数也很少用到进阶技巧，部分难度等级生不出来或要尝试很久，只提供这些等级
+const LIMITED_DIFFICULTIES: Record<string, Difficulty[]> = {
+  '4': ['easy'],
+  '6': ['easy', 'medium', 'expert', 'diabolical'],
+  'cube-4': ['easy', 'medium', 'hard', 'diabolical']
+};
+
+// 棋盘能生成的难度等级；锯齿数独的不规则区域让小棋盘也能用到各种技巧，纯笼子题目拆到逻辑可解为止，不会是最高难度
+export function getAvailableDifficulties(
+  size: number,
+  options: { jigsaw?: boolean; cube?: boolean; killer?: KillerMode } = {}
+): Difficulty[] {
+  const available = options.jigsaw
+    ? DIFFICULTY_ORDER
+    : LIMITED_DIFFICULTIES[options.cube ? `cube-${size}` : `${size}`] ?? DIFFICULTY_ORDER;
+  return options.killer === 'pure' ? available.filter(difficulty => difficulty !== 'diabolical') : available;
+}
 
 export interface GeneratedPuzzle {
   puzzle: number[][];
   solution: number[][];
   preset: boolean[][];
+  grade?: DifficultyGrade;
+  seed?: string;
+  regions?: number[][];
+  cages?: Cage[];
+  lines?: LineClue[];
+}
+
+export interface GeneratorOptions {
+  // 随机种子：相同的种子、规模和难度总是生成相同的题目
+  seed?: string;
+  // 锯齿数独：由种子随机生成不规则区域，忽略 config 中的矩形宫
+  jigsaw?: boolean;
+  // 杀手数独：按终盘随机划分笼子；pure 表示不保留任何提示数
+  killer?: KillerMode;
+  // 线条规则：按终盘随机画出这些类型的线条
+  lines?: LineType[];
+  onProgress?: (progress: GenerationProgress) => void;
 }
 
 export class SudokuGenerator {
   private config: SudokuConfig;
   private board: number[][];
+  private options: GeneratorOptions;
+  private seed: string;
+  private random: RandomSource;
 
-  constructor(config: SudokuConfig) {
+  // 进度统计
+  private attempt = 0;
+  private uniquenessChecks = 0;
+
+  constructor(config: SudokuConfig, options: GeneratorOptions = {}) {
     this.config = config;
-    this.board = Array(config.size).fill(0).map(() => Array(config.size).fill(0));
+    this.options = options;
+    this.seed = options.seed ?? createSeed();
+    this.random = createRandom(this.seed);
+    if (options.jigsaw) {
+      this.config = { ...config, regions: generateRegions(config.size, this.random, config.constraints) };
+    }
+    this.board = Array(getBoardRows(config)).fill(0).map(() => Array(getBoardCols(config)).fill(0));
   }
 
-  // 检查在指定位置放置数字是否合法
-  private isValid(board: number[][], row: number, col: number, num: number): boolean {
-    // 检查行
-    for (let x = 0; x < this.config.size; x++) {
-      if (board[row][x] === num) return false;
+  // 使用舞蹈链随机填充完整的数独
+  private createSolution(): number[][] {
+    const empty = Array(getBoardRows(this.config)).fill(0).map(() => Array(getBoardCols(this.config)).fill(0));
+    const { regions, constraints, cages, cube, layout } = this.config;
+    if (!regions && !constraints?.length && !cages?.length && !cube && !layout) {
+      return solveExactly(empty, this.config, rows => this.shuffleArray(rows))!;
     }
-
-    // 检查列
-    for (let x = 0; x < this.config.size; x++) {
-      if (board[x][col] === num) return false;
+    // 不规则区域、变体规则、立方体的棱或重叠的多个数独让随机搜索偶尔陷入很深的回溯，限定步数后换一个随机顺序重试
+    const maxSteps = getBoardCells(this.config).length * SEARCH_STEPS_PER_CELL;
+    for (let attempt = 0; attempt < MAX_SOLUTION_ATTEMPTS; attempt++) {
+      const solution = solveExactly(empty, this.config, rows => this.shuffleArray(rows), maxSteps * 2 ** attempt);
+      if (solution) return solution;
     }
+    throw new Error(`${this.config.size}×${this.config.size} 的棋盘无法满足所选的规则`);
+  }
 
-    // 检查子宫格
-    const startRow = row - (row % this.config.subRows);
-    const startCol = col - (col % this.config.subCols);
-    
-    for (let i = 0; i < this.config.subRows; i++) {
-      for (let j = 0; j < this.config.subCols; j++) {
-        if (board[i + startRow][j + startCol] === num) return false;
-      }
-    }
+  // 数组随机化（由种子驱动）
+  private shuffleArray<T>(array: T[]): void {
+    shuffleWith(array, this.random);
+  }
 
-    return true;
+  private reportProgress(cellsRemoved: number): void {
+    this.options.onProgress?.({
+      attempt: this.attempt,
+      maxAttempts: MAX_GRADING_ATTEMPTS,
+      cellsRemoved,
+      totalCells: getBoardCells(this.config).length,
+      uniquenessChecks: this.uniquenessChecks
+    });
   }
 
-  // 使用回溯算法填充完整的数独
-  private solveSudoku(board: number[][]): boolean {
-    for (let row = 0; row < this.config.size; row++) {
-      for (let col = 0; col < this.config.size; col++) {
-        if (board[row][col] === 0) {
-          // 随机化数字顺序
-          const numbers = Array.from({ length: this.config.size }, (_, i) => i + 1);
-          this.shuffleArray(numbers);
-
-          for (const num of numbers) {
-            if (this.isValid(board, row, col, num)) {
-              board[row][col] = num;
-
-              if (this.solveSudoku(board)) {
-                return true;
-              }
-
-              board[row][col] = 0;
-            }
-          }
-          return false;
-        }
+  // 生成数独题目：反复挖空并评级，只返回正好落在要求难度等级的题目
+  public generatePuzzle(): GeneratedPuzzle {
+    const { difficulty } = this.config;
+    for (this.attempt = 1; this.attempt <= MAX_GRADING_ATTEMPTS; this.attempt++) {
+      const generated = this.digPuzzle();
+      if (generated.grade!.difficulty === difficulty) {
+        return generated;
       }
     }
-    return true;
+    throw new Error(`没能生成${DIFFICULTY_LABELS[difficulty]}难度的 ${this.config.size}×${this.config.size} 题目`);
   }
 
-  // 数组随机化
-  private shuffleArray<T>(array: T[]): void {
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]];
+  // 从完整的解开始挖空，只保留不超过目标难度的移除
+  private digPuzzle(): GeneratedPuzzle {
+    // 1. 生成完整的解（每次尝试都重新划分笼子和线条，求终盘时不受上一次的结果约束）
+    if (this.options.killer || this.options.lines?.length) {
+      this.config = { ...this.config, cages: undefined, lines: undefined };
     }
-  }
-
-  // 检查数独是否有唯一解
-  private hasUniqueSolution(board: number[][]): boolean {
-    const testBoard = board.map(row => [...row]);
-    let solutionCount = 0;
-
-    const countSolutions = (board: number[][]): void => {
-      if (solutionCount > 1) return; // 提前退出
-
-      for (let row = 0; row < this.config.size; row++) {
-        for (let col = 0; col < this.config.size; col++) {
-          if (board[row][col] === 0) {
-            for (let num = 1; num <= this.config.size; num++) {
-              if (this.isValid(board, row, col, num)) {
-                board[row][col] = num;
-                countSolutions(board);
-                board[row][col] = 0;
-              }
-            }
-            return;
-          }
-        }
-      }
-      solutionCount++;
-    };
+    const solution = this.createSolution();
 
-    countSolutions(testBoard);
-    return solutionCount === 1;
-  }
+    // 线条规则：按终盘画线，挖空时由线条保证唯一解
+    if (this.options.lines?.length) {
+      this.config = { ...this.config, lines: generateLines(solution, this.random, this.options.lines) };
+    }
 
-  // 生成数独题目
-  public generatePuzzle(): GeneratedPuzzle {
-    // 1. 生成完整的解
-    const solution = Array(this.config.size).fill(0).map(() => Array(this.config.size).fill(0));
-    this.solveSudoku(solution);
+    // 杀手数独：按终盘划分笼子，纯笼子题目不再挖空
+    if (this.options.killer) {
+      this.config = { ...this.config, cages: generateCages(solution, this.random) };
+      if (this.options.killer === 'pure') return this.createPureKiller(solution);
+    }
+    const grader = new DifficultyGrader(this.config);
 
     // 2. 创建题目（移除一些数字）
     const puzzle = solution.map(row => [...row]);
-    const preset = Array(this.config.size).fill(0).map(() => Array(this.config.size).fill(true));
-
-    // 根据难度确定要移除的格子数量
-    const totalCells = this.config.size * this.config.size;
-    let cellsToRemove: number;
-
-    switch (this.config.difficulty) {
-      case 'easy':
-        cellsToRemove = Math.floor(totalCells * 0.4); // 移除40%
-        break;
-      case 'medium':
-        cellsToRemove = Math.floor(totalCells * 0.55); // 移除55%
-        break;
-      case 'hard':
-        cellsToRemove = Math.floor(totalCells * 0.7); // 移除70%
-        break;
-      default:
-        cellsToRemove = Math.floor(totalCells * 0.5);
-    }
-
-    // 随机移除数字，但确保仍有唯一解
-    const positions = [];
-    for (let row = 0; row < this.config.size; row++) {
-      for (let col = 0; col < this.config.size; col++) {
-        positions.push([row, col]);
+    // 多宫格数独的空位不是提示数
+    const preset = solution.map((line, row) => line.map((_, col) => isBoardCell(this.config, row, col)));
+    const target = this.config.difficulty;
+    // 稀疏盘面上的唯一性证明可能极慢（16×16 的空格很多，两两约束、笼子、线条和立方体的棱让舞蹈链的剪枝变弱），因此限定步数
+    const variant = this.config.constraints?.length || this.config.cages || this.config.lines || this.config.cube;
+    const uniquenessSteps = getBoardCells(this.config).length
+      * (variant ? VARIANT_UNIQUENESS_STEPS_PER_CELL : UNIQUENESS_STEPS_PER_CELL);
+
+    // 判断当前盘面能否保留这次移除
+    const accept = (): boolean => {
+      this.uniquenessChecks++;
+      if (target === 'diabolical') {
+        // 最高难度不受技巧限制，只要求唯一解
+        return hasUniqueSolution(puzzle, this.config, uniquenessSteps);
       }
-    }
+      // 逻辑求解成功本身就保证了唯一解
+      const grade = grader.grade(puzzle);
+      return grade.solvedLogically && compareDifficulty(grade.difficulty, target) <= 0;
+    };
+
+    const positions = getBoardCells(this.config).map(({ row, col }) => [row, col]);
     this.shuffleArray(positions);
 
+    // 成批挖空：整批都能移除时加大批次，否则缩小批次直到找出必须保留的格子
+    let index = 0;
+    let batchSize = 1;
     let removed = 0;
-    for (const [row, col] of positions) {
-      if (removed >= cellsToRemove) break;
-
-      const originalValue = puzzle[row][col];
-      puzzle[row][col] = 0;
-      preset[row][col] = false;
-
-      // 对于较小的数独或简单难度，跳过唯一解检查以提高性能
-      if (this.config.size <= 9 && this.config.difficulty !== 'easy') {
-        if (!this.hasUniqueSolution(puzzle)) {
-          // 如果移除这个数字导致多解，则恢复
-          puzzle[row][col] = originalValue;
-          preset[row][col] = true;
-          continue;
-        }
+    while (index < positions.length) {
+      const batch = positions.slice(index, index + batchSize);
+      for (const [row, col] of batch) puzzle[row][col] = 0;
+
+      if (accept()) {
+        for (const [row, col] of batch) preset[row][col] = false;
+        index += batch.length;
+        removed += batch.length;
+        batchSize *= 2;
+      } else {
+        for (const [row, col] of batch) puzzle[row][col] = solution[row][col];
+        if (batch.length === 1) index++;
+        batchSize = Math.max(1, Math.floor(batch.length / 2));
       }
+      this.reportProgress(removed);
+    }
 
-      removed++;
+    let grade = grader.grade(puzzle);
+    // 最高难度只要求唯一解，其余难度在挖到最少提示数后仍偏简单时继续加难
+    if (target !== 'diabolical' && compareDifficulty(grade.difficulty, target) < 0) {
+      grade = this.hardenPuzzle(puzzle, solution, preset, grader, grade);
     }
 
     return {
       puzzle,
       solution,
-      preset
+      preset,
+      grade,
+      seed: this.seed,
+      regions: this.config.regions,
+      cages: this.config.cages,
+      lines: this.config.lines
     };
   }
 
-  // 快速生成（用于大尺寸数独，不检查唯一解）
-  public generateQuickPuzzle(): GeneratedPuzzle {
-    // 生成完整解
-    const solution = Array(this.config.size).fill(0).map(() => Array(this.config.size).fill(0));
-    this.solveSudoku(solution);
-
-    // 创建题目
-    const puzzle = solution.map(row => [...row]);
-    const preset = Array(this.config.size).fill(0).map(() => Array(this.config.size).fill(true));
-
-    // 简单的移除策略：每个子宫格保留一定数量的数字
-    const cellsPerBox = this.config.subRows * this.config.subCols;
-    let keepPerBox: number;
-
-    switch (this.config.difficulty) {
-      case 'easy':
-        keepPerBox = Math.ceil(cellsPerBox * 0.7);
-        break;
-      case 'medium':
-        keepPerBox = Math.ceil(cellsPerBox * 0.5);
-        break;
-      case 'hard':
-        keepPerBox = Math.ceil(cellsPerBox * 0.3);
-        break;
-      default:
-        keepPerBox = Math.ceil(cellsPerBox * 0.5);
+  // 加难：填回一个空格再挖掉一到两个提示数，保留逻辑可解、不超过目标难度且不比原来简单的盘面，直到达到目标难度
+  private hardenPuzzle(
+    puzzle: number[][],
+    solution: number[][],
+    preset: boolean[][],
+    grader: DifficultyGrader,
+    grade: DifficultyGrade
+  ): DifficultyGrade {
+    const target = this.config.difficulty;
+    // 先比难度等级，再比最难技巧，最后比工作量
+    const rank = (candidate: DifficultyGrade) =>
+      DIFFICULTY_ORDER.indexOf(candidate.difficulty) * 1e6
+      + (candidate.hardestTechnique ? TECHNIQUE_ORDER.indexOf(candidate.hardestTechnique) : 0) * 1e4
+      + candidate.score;
+    const pick = (cells: number[][]) => cells.splice(Math.floor(this.random() * cells.length), 1)[0];
+
+    for (let step = 0; step < HARDENING_STEPS && compareDifficulty(grade.difficulty, target) < 0; step++) {
+      const givens: number[][] = [];
+      const empties: number[][] = [];
+      for (const { row, col } of getBoardCells(this.config)) {
+        (preset[row][col] ? givens : empties).push([row, col]);
+      }
+      if (empties.length === 0 || givens.length < 2) break;
+
+      const [addRow, addCol] = pick(empties);
+      const removed = [pick(givens)];
+      if (this.random() < 0.5) removed.push(pick(givens));
+      puzzle[addRow][addCol] = solution[addRow][addCol];
+      for (const [row, col] of removed) puzzle[row][col] = 0;
+
+      this.uniquenessChecks++;
+      const candidate = grader.grade(puzzle);
+      if (candidate.solvedLogically && compareDifficulty(candidate.difficulty, target) <= 0 && rank(candidate) >= rank(grade)) {
+        preset[addRow][addCol] = true;
+        for (const [row, col] of removed) preset[row][col] = false;
+        grade = candidate;
+      } else {
+        puzzle[addRow][addCol] = 0;
+        for (const [row, col] of removed) puzzle[row][col] = solution[row][col];
+      }
     }
+    return grade;
+  }
 
-    // 对每个子宫格进行处理
-    for (let boxRow = 0; boxRow < this.config.size; boxRow += this.config.subRows) {
-      for (let boxCol = 0; boxCol < this.config.size; boxCol += this.config.subCols) {
-        const positions = [];
-        
-        // 收集当前子宫格的所有位置
-        for (let i = 0; i < this.config.subRows; i++) {
-          for (let j = 0; j < this.config.subCols; j++) {
-            positions.push([boxRow + i, boxCol + j]);
-          }
-        }
-
-        // 随机选择要保留的位置
-        this.shuffleArray(positions);
-        for (let i = keepPerBox; i < positions.length; i++) {
-          const [row, col] = positions[i];
-          puzzle[row][col] = 0;
-          preset[row][col] = false;
+  // 纯笼子题目：空盘面交给逻辑求解器，卡住时拆小未解出格子所在的笼子，直到能够解出（也就保证了唯一解）
+  private createPureKiller(solution: number[][]): GeneratedPuzzle {
+    const empty = solution.map(row => row.map(() => 0));
+    // 每次拆分都会多出至少一个笼子，全部拆成单格时必然可解
+    for (let split = 0; split < this.config.size * this.config.size; split++) {
+      this.uniquenessChecks++;
+      this.reportProgress(0);
+      const result = solveLogically(empty, this.config);
+      const unsolved = [];
+      for (let row = 0; row < this.config.size; row++) {
+        for (let col = 0; col < this.config.size; col++) {
+          if (result.board[row][col] === 0) unsolved.push({ row, col });
         }
       }
+      if (result.solved || unsolved.length === 0) break;
+      const cell = unsolved[Math.floor(this.random() * unsolved.length)];
+      this.config = { ...this.config, cages: splitCage(this.config.cages!, solution, cell) };
     }
 
     return {
-      puzzle,
+      puzzle: empty,
       solution,
-      preset
+      preset: solution.map(row => row.map(() => false)),
+      grade: new DifficultyGrader(this.config).grade(empty),
+      seed: this.seed,
+      regions: this.config.regions,
+      cages: this.config.cages,
+      lines: this.config.lines
     };
   }
 }
 
 // 导出生成函数
-export function generateSudoku(config: SudokuConfig): GeneratedPuzzle {
-  const generator = new SudokuGenerator(config);
-  
-  // 对于大尺寸数独使用快速生成
-  if (config.size > 9) {
-    return generator.generateQuickPuzzle();
-  } else {
-    return generator.generatePuzzle();
-  }
-} 
\ No newline at end of file
+export function generateSudoku(config: SudokuConfig, options: GeneratorOptions = {}): GeneratedPuzzle {
+  const generator = new SudokuGenerator(config, options);
+  return generator.generatePuzzle();
+}
\ No newline at end of file
@@ -0,0 +1,269 @@
+import type { CellPosition, ConstraintType, SudokuConfig, UnitType } from '../types/game';
+import { getActiveRules, getBlockedValues, getRelations, violatesRelation } from './constraints';
+import { getCageCandidates, isCageSumBroken } from './cages';
+import { getArrowCandidates, getArrowsOf, isArrowSumBroken } from './lines';
+import { getFaceOf } from './cube';
+import { getBoardCols, getBoardRows, getGridOrigins, isBoardCell } from './grids';
+
+// 棋盘上的一个区域（行、列或子宫格），区域内数字不能重复；
+// 通常正好 n 格、每个数字出现一次，立方体数独跨棱的区域可能不足 n 格，只要求不重复
+export interface BoardUnit {
+  type: UnitType;
+  index: number;
+  cells: CellPosition[];
+}
+
+export interface UnitConflict extends CellPosition {
+  type: ConstraintType;
+}
+
+// 填入一个数字后，其他格子不能再填的数字
+export interface CellElimination extends CellPosition {
+  value: number;
+}
+
+const rowUnit = (config: SudokuConfig, row: number): BoardUnit => ({
+  type: 'row',
+  index: row,
+  cells: Array.from({ length: config.size }, (_, col) => ({ row, col }))
+});
+
+// 第 index 列；立方体数独每个面各有 n 列，编号为 面 × n + 列
+const columnUnit = (config: SudokuConfig, index: number): BoardUnit => {
+  const top = Math.floor(index / config.size) * config.size;
+  const col = index % config.size;
+  return {
+    type: 'column',
+    index,
+    cells: Array.from({ length: config.size }, (_, row) => ({ row: top + row, col }))
+  };
+};
+
+// 格子所属子宫格的编号；有区域图时按区域图，否则按 subRows×subCols 矩形划分整个盘面
+// （立方体数独的编号按面依次排下去，多宫格数独中重叠的数独共用同一个编号的子宫格）
+export function getRegionIndex(config: SudokuConfig, row: number, col: number): number {
+  if (config.regions) return config.regions[row][col];
+  return Math.floor(row / config.subRows) * (getBoardCols(config) / config.subCols) + Math.floor(col / config.subCols);
+}
+
+// 编号为 index 的子宫格，格子按行优先排列
+const boxUnit = (config: SudokuConfig, index: number): BoardUnit => {
+  const cells: CellPosition[] = [];
+  const top = Math.floor(index / config.size) * config.size;
+  for (let row = top; row < top + config.size; row++) {
+    for (let col = 0; col < config.size; col++) {
+      if (getRegionIndex(config, row, col) === index) cells.push({ row, col });
+    }
+  }
+  return { type: 'box', index, cells };
+};
+
+// 变体规则增加的不重复区域（如对角线）
+const variantUnits = (config: SudokuConfig): BoardUnit[] =>
+  getActiveRules(config).flatMap(rule =>
+    (rule.units?.(config) ?? []).map((cells, index) => ({ type: rule.type as UnitType, index, cells }))
+  );
+
+// 多宫格数独的区域：每个数独各有 n 行、n 列（只覆盖该数独的范围），子宫格在重叠处共用，只算一次
+function layoutUnits(config: SudokuConfig): BoardUnit[] {
+  const { size, subRows, subCols } = config;
+  const origins = getGridOrigins(config);
+  const rows: BoardUnit[] = [];
+  const columns: BoardUnit[] = [];
+  const boxes = new Map<number, BoardUnit>();
+  origins.forEach((origin, grid) => {
+    for (let i = 0; i < size; i++) {
+      rows.push({
+        type: 'row',
+        index: grid * size + i,
+        cells: Array.from({ length: size }, (_, col) => ({ row: origin.row + i, col: origin.col + col }))
+      });
+      columns.push({
+        type: 'column',
+        index: grid * size + i,
+        cells: Array.from({ length: size }, (_, row) => ({ row: origin.row + row, col: origin.col + i }))
+      });
+    }
+    for (let top = origin.row; top < origin.row + size; top += subRows) {
+      for (let left = origin.col; left < origin.col + size; left += subCols) {
+        const index = getRegionIndex(config, top, left);
+        if (boxes.has(index)) continue;
+        const cells: CellPosition[] = [];
+        for (let row = top; row < top + subRows; row++) {
+          for (let col = left; col < left + subCols; col++) cells.push({ row, col });
+        }
+        boxes.set(index, { type: 'box', index, cells });
+      }
+    }
+  });
+  return [...rows, ...columns, ...boxes.values()];
+}
+
+// 棋盘的全部区域：先所有行，再所有列，然后所有子宫格，最后是变体规则的区域
+export function getUnits(config: SudokuConfig): BoardUnit[] {
+  if (config.layout) return layoutUnits(config);
+  const units: BoardUnit[] = [];
+  const rows = getBoardRows(config);
+  for (let row = 0; row < rows; row++) units.push(rowUnit(config, row));
+  // 列和子宫格的个数与行数相同（立方体数独每个面各有 n 个）
+  for (let index = 0; index < rows; index++) units.push(columnUnit(config, index));
+  for (let index = 0; index < rows; index++) units.push(boxUnit(config, index));
+  units.push(...variantUnits(config));
+  return units;
+}
+
+// 指定格子所在的区域（行、列、子宫格以及包含它的变体区域）
+export function getUnitsOf(config: SudokuConfig, row: number, col: number): BoardUnit[] {
+  if (config.layout) {
+    return layoutUnits(config).filter(unit => unit.cells.some(cell => cell.row === row && cell.col === col));
+  }
+  return [
+    rowUnit(config, row),
+    columnUnit(config, getFaceOf(config, row) * config.size + col),
+    boxUnit(config, getRegionIndex(config, row, col)),
+    ...variantUnits(config).filter(unit => unit.cells.some(cell => cell.row === row && cell.col === col))
+  ];
+}
+
+// 与指定格子同在某个区域的其他格子（不含自身，不重复）
+export function getPeers(config: SudokuConfig, row: number, col: number): CellPosition[] {
+  const cols = getBoardCols(config);
+  const seen = new Set<number>([row * cols + col]);
+  const peers: CellPosition[] = [];
+  for (const unit of getUnitsOf(config, row, col)) {
+    for (const cell of unit.cells) {
+      const key = cell.row * cols + cell.col;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      peers.push(cell);
+    }
+  }
+  return peers;
+}
+
+// 在 (row, col) 填入 value 时，与之冲突的已填格子及被违反的规则
+export function getConflicts(
+  board: number[][],
+  config: SudokuConfig,
+  row: number,
+  col: number,
+  value: number
+): UnitConflict[] {
+  if (value === 0) return [];
+
+  const conflicts: UnitConflict[] = [];
+  for (const unit of getUnitsOf(config, row, col)) {
+    for (const cell of unit.cells) {
+      if ((cell.row !== row || cell.col !== col) && board[cell.row]?.[cell.col] === value) {
+        conflicts.push({ ...cell, type: unit.type });
+      }
+    }
+  }
+  for (const relation of getRelations(config, row, col)) {
+    const other = board[relation.row]?.[relation.col];
+    if (other && violatesRelation(relation, value, other, config.size)) {
+      conflicts.push({ row: relation.row, col: relation.col, type: relation.rule.type });
+    }
+  }
+  // 杀手数独：填入后笼子的总和无法满足时，与笼中已填的格子冲突（笼中没有其他数字时记在本格）
+  for (const cage of config.cages ?? []) {
+    if (!cage.cells.some(cell => cell.row === row && cell.col === col)) continue;
+    const next = board.map(line => [...line]);
+    next[row][col] = value;
+    if (!isCageSumBroken(next, cage, config.size)) continue;
+    const filled = cage.cells.filter(cell => (cell.row !== row || cell.col !== col) && board[cell.row][cell.col] !== 0);
+    for (const cell of filled.length > 0 ? filled : [{ row, col }]) {
+      conflicts.push({ ...cell, type: 'cage-sum' });
+    }
+  }
+  // 箭头：填入后圆圈与箭头之和无法相等时，与箭头上已填的格子冲突
+  for (const { line } of getArrowsOf(config, row, col)) {
+    const next = board.map(cells => [...cells]);
+    next[row][col] = value;
+    if (!isArrowSumBroken(next, line, config.size)) continue;
+    const filled = line.cells.filter(cell => (cell.row !== row || cell.col !== col) && board[cell.row][cell.col] !== 0);
+    for (const cell of filled.length > 0 ? filled : [{ row, col }]) {
+      conflicts.push({ ...cell, type: 'arrow' });
+    }
+  }
+  return conflicts;
+}
+
+// 在 (row, col) 填入 value 后，同区域和两两相关的格子因此不能再填的数字
+export function getEliminations(config: SudokuConfig, row: number, col: number, value: number): CellElimination[] {
+  const eliminations = getPeers(config, row, col).map(peer => ({ ...peer, value }));
+  for (const relation of getRelations(config, row, col)) {
+    for (const forbidden of relation.rule.forbidden!(value, config.size)) {
+      eliminations.push({ row: relation.row, col: relation.col, value: forbidden });
+    }
+  }
+  return eliminations;
+}
+
+// 空格在当前盘面下的所有合法候选数（多宫格数独的空位没有候选数）
+export function getCandidates(board: number[][], config: SudokuConfig, row: number, col: number): number[] {
+  if (board[row][col] !== 0 || !isBoardCell(config, row, col)) return [];
+
+  const used = new Set<number>();
+  for (const peer of getPeers(config, row, col)) {
+    used.add(board[peer.row][peer.col]);
+  }
+  for (const relation of getRelations(config, row, col)) {
+    const other = board[relation.row][relation.col];
+    if (other) getBlockedValues(relation, other, config.size).forEach(value => used.add(value));
+  }
+  // 杀手数独：还要能凑出所在笼子的总和
+  for (const cage of config.cages ?? []) {
+    if (!cage.cells.some(cell => cell.row === row && cell.col === col)) continue;
+    const allowed = getCageCandidates(board, cage, config.size);
+    for (let value = 1; value <= config.size; value++) {
+      if (!(allowed & (1 << (value - 1)))) used.add(value);
+    }
+  }
+  // 箭头：圆圈与箭头之和的上下界
+  for (const { line, index } of getArrowsOf(config, row, col)) {
+    const allowed = getArrowCandidates(board, line, config.size, index);
+    for (let value = 1; value <= config.size; value++) {
+      if (!(allowed & (1 << (value - 1)))) used.add(value);
+    }
+  }
+
+  const candidates: number[] = [];
+  for (let value = 1; value <= config.size; value++) {
+    if (!used.has(value)) candidates.push(value);
+  }
+  return candidates;
+}
+
+// 整个棋盘的候选数网格，已填的格子为空列表
+export function getAllCandidates(board: number[][], config: SudokuConfig): number[][][] {
+  return Array.from({ length: getBoardRows(config) }, (_, row) =>
+    Array.from({ length: getBoardCols(config) }, (_, col) => getCandidates(board, config, row, col))
+  );
+}
+
+// 格子四周哪些边是子宫格的边界（棋盘外沿以及多宫格数独的空位也算），用于绘制粗线
+export interface RegionBorders {
+  top: boolean;
+  right: boolean;
+  bottom: boolean;
+  left: boolean;
+}
+
+export function getRegionBorders(config: SudokuConfig, row: number, col: number): RegionBorders {
+  const region = getRegionIndex(config, row, col);
+  const differs = (r: number, c: number) => !isBoardCell(config, r, c) || getRegionIndex(config, r, c) !== region;
+  return {
+    top: differs(row - 1, col),
+    right: differs(row, col + 1),
+    bottom: differs(row + 1, col),
+    left: differs(row, col - 1)
+  };
+}
+
+// 格子内笔记的排列方式 [行数, 列数]：矩形宫沿用宫的形状，不规则区域取接近正方形的排列
+export function getNotesLayout(config: SudokuConfig): [number, number] {
+  if (!config.regions) return [config.subRows, config.subCols];
+  const rows = Math.ceil(Math.sqrt(config.size));
+  return [rows, Math.ceil(config.size / rows)];
+}
@@ -0,0 +1,113 @@
+import type { Difficulty, DifficultyGrade, SolvingTechnique, SudokuConfig } from '../types/game';
+import { LogicalSolver, TECHNIQUE_ORDER } from './solver';
+
+// 难度等级从低到高
+export const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard', 'expert', 'diabolical'];
+
+// 难度的中文名称
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: '简单',
+  medium: '中等',
+  hard: '困难',
+  expert: '专家',
+  diabolical: '地狱'
+};
+
+// 每种技巧所属的难度等级
+const TECHNIQUE_TIERS: Record<SolvingTechnique, Difficulty> = {
+  'naked-single': 'easy',
+  'hidden-single': 'easy',
+  'cage-combination': 'easy',
+  'line-constraint': 'medium',
+  'pointing': 'medium',
+  'claiming': 'medium',
+  'naked-pair': 'medium',
+  'hidden-pair': 'medium',
+  'naked-triple': 'hard',
+  'hidden-triple': 'hard',
+  'x-wing': 'expert',
+  'xy-wing': 'expert',
+  'swordfish': 'expert'
+};
+
+// 每种技巧的工作量权重
+const TECHNIQUE_WEIGHTS: Record<SolvingTechnique, number> = {
+  'naked-single': 1,
+  'hidden-single': 2,
+  'cage-combination': 3,
+  'line-constraint': 4,
+  'pointing': 4,
+  'claiming': 4,
+  'naked-pair': 6,
+  'hidden-pair': 8,
+  'naked-triple': 10,
+  'hidden-triple': 12,
+  'x-wing': 16,
+  'xy-wing': 18,
+  'swordfish': 22
+};
+
+// 单数以外的技巧工作量之和达到阈值时，难度提升一级（单数占了绝大多数步骤，按平均工作量几乎不会提升）
+const EFFORT_PROMOTION: Partial<Record<Difficulty, number>> = {
+  medium: 24,
+  hard: 80
+};
+
+// 比较两个难度等级，返回负数表示 a 更简单
+export function compareDifficulty(a: Difficulty, b: Difficulty): number {
+  return DIFFICULTY_ORDER.indexOf(a) - DIFFICULTY_ORDER.indexOf(b);
+}
+
+// 根据逻辑求解器需要的最难技巧和总工作量评定难度
+export class DifficultyGrader {
+  private solver: LogicalSolver;
+
+  constructor(config: SudokuConfig) {
+    this.solver = new LogicalSolver(config);
+  }
+
+  grade(puzzle: number[][]): DifficultyGrade {
+    const result = this.solver.solve(puzzle);
+
+    let hardestTechnique: SolvingTechnique | null = null;
+    let score = 0;
+    let effort = 0;
+    for (const step of result.steps) {
+      score += TECHNIQUE_WEIGHTS[step.technique];
+      if (TECHNIQUE_TIERS[step.technique] !== 'easy') effort += TECHNIQUE_WEIGHTS[step.technique];
+      if (!hardestTechnique || TECHNIQUE_ORDER.indexOf(step.technique) > TECHNIQUE_ORDER.indexOf(hardestTechnique)) {
+        hardestTechnique = step.technique;
+      }
+    }
+
+    // 现有技巧无法解出，需要猜测
+    if (!result.solved) {
+      return {
+        difficulty: 'diabolical',
+        hardestTechnique,
+        score,
+        steps: result.steps.length,
+        solvedLogically: false
+      };
+    }
+
+    let difficulty: Difficulty = hardestTechnique ? TECHNIQUE_TIERS[hardestTechnique] : 'easy';
+    const threshold = EFFORT_PROMOTION[difficulty];
+    if (threshold !== undefined && effort >= threshold) {
+      difficulty = DIFFICULTY_ORDER[DIFFICULTY_ORDER.indexOf(difficulty) + 1];
+    }
+
+    return {
+      difficulty,
+      hardestTechnique,
+      score,
+      steps: result.steps.length,
+      solvedLogically: true
+    };
+  }
+}
+
+// 导出评级函数
+export function gradePuzzle(puzzle: number[][], config: SudokuConfig): DifficultyGrade {
+  return new DifficultyGrader(config).grade(puzzle);
+}
@@ -0,0 +1,91 @@
+import type { CellPosition, MultiGridLayout, SudokuConfig } from '../types/game';
+import { CUBE_FACES } from './cube';
+
+// 多宫格数独：几个 9×9 数独按子宫格对齐、互相重叠地摆在一张较大的稀疏盘面上，重叠处的格子同时属于几个数独
+export const MULTI_GRID_SIZE = 9;
+
+export interface GridLayout {
+  label: string;
+  description: string;
+  // 每个 9×9 数独左上角在盘面上的位置
+  origins: CellPosition[];
+}
+
+const at = (row: number, col: number): CellPosition => ({ row, col });
+
+// 多宫格布局注册表
+export const GRID_LAYOUTS: Record<MultiGridLayout, GridLayout> = {
+  twodoku: {
+    label: '双连',
+    description: '两个数独在一角共用一个子宫格',
+    origins: [at(0, 0), at(6, 6)]
+  },
+  butterfly: {
+    label: '蝴蝶',
+    description: '四个数独两两错开一个子宫格，共同组成 12×12 的盘面',
+    origins: [at(0, 0), at(0, 3), at(3, 0), at(3, 3)]
+  },
+  flower: {
+    label: '花朵',
+    description: '中间的数独与上下左右四个数独各重叠六个子宫格',
+    origins: [at(3, 3), at(0, 3), at(3, 0), at(3, 6), at(6, 3)]
+  },
+  sohei: {
+    label: '僧兵',
+    description: '四个数独围成一圈，相邻两个在一角共用一个子宫格',
+    origins: [at(0, 6), at(6, 0), at(6, 12), at(12, 6)]
+  },
+  samurai: {
+    label: '武士',
+    description: '中间的数独与四角的数独各共用一个子宫格',
+    origins: [at(0, 0), at(0, 12), at(6, 6), at(12, 0), at(12, 12)]
+  }
+};
+
+// 盘面上各个数独的左上角；普通数独只有一个，位于原点
+export function getGridOrigins(config: SudokuConfig): CellPosition[] {
+  return config.layout ? GRID_LAYOUTS[config.layout].origins : [at(0, 0)];
+}
+
+// 盘面的行数：立方体数独为六个面的行数之和，多宫格数独为各数独所占范围
+export function getBoardRows(config: SudokuConfig): number {
+  if (config.cube) return CUBE_FACES * config.size;
+  return Math.max(...getGridOrigins(config).map(origin => origin.row)) + config.size;
+}
+
+// 盘面的列数
+export function getBoardCols(config: SudokuConfig): number {
+  return Math.max(...getGridOrigins(config).map(origin => origin.col)) + config.size;
+}
+
+// 格子所属的数独编号；不属于任何数独的空位为空列表
+export function getGridsOf(config: SudokuConfig, row: number, col: number): number[] {
+  const grids: number[] = [];
+  getGridOrigins(config).forEach((origin, index) => {
+    if (row >= origin.row && col >= origin.col && row < origin.row + config.size && col < origin.col + config.size) {
+      grids.push(index);
+    }
+  });
+  return grids;
+}
+
+// 格子是否在盘面上需要填数（多宫格数独的空位不用填，立方体数独的每一行都是某个面）
+export function isBoardCell(config: SudokuConfig, row: number, col: number): boolean {
+  if (row < 0 || col < 0 || row >= getBoardRows(config) || col >= getBoardCols(config)) return false;
+  return !config.layout || getGridsOf(config, row, col).length > 0;
+}
+
+// 检查布局名称
+export const isValidLayout = (layout: unknown): layout is MultiGridLayout =>
+  typeof layout === 'string' && layout in GRID_LAYOUTS;
+
+// 盘面上所有需要填数的格子，按行优先排列
+export function getBoardCells(config: SudokuConfig): CellPosition[] {
+  const cells: CellPosition[] = [];
+  for (let row = 0; row < getBoardRows(config); row++) {
+    for (let col = 0; col < getBoardCols(config); col++) {
+      if (isBoardCell(config, row, col)) cells.push({ row, col });
+    }
+  }
+  return cells;
+}
@@ -0,0 +1,109 @@
+import type { CellPosition, Hint, HintUsage, SudokuConfig } from '../types/game';
+import { LogicalSolver, TECHNIQUE_LABELS, describeStep } from './solver';
+import { getCandidates, getUnits, getUnitsOf } from './geometry';
+import { getBoardCells } from './grids';
+import { formatBoardCell } from './cube';
+import { formatCellValue } from '../utils/formatter';
+
+// 格子在当前提示中的作用：可以推进的区域、构成技巧的关键格子、要填数或删减的格子
+export type HintCellRole = 'region' | 'pattern' | 'target';
+
+// 还没有使用过提示
+export const createHintUsage = (): HintUsage => ({ 1: 0, 2: 0, 3: 0 });
+
+// 检查提示次数记录
+export const isValidHintUsage = (usage: unknown): usage is HintUsage =>
+  !!usage && typeof usage === 'object' &&
+  ([1, 2, 3] as const).every(level => Number.isInteger((usage as HintUsage)[level]));
+
+const samePosition = (a: CellPosition, b: CellPosition) => a.row === b.row && a.col === b.col;
+
+// 格子所在的子宫格
+const boxOf = (config: SudokuConfig, cell: CellPosition): CellPosition[] =>
+  getUnitsOf(config, cell.row, cell.col).find(unit => unit.type === 'box')!.cells;
+
+// 几个格子所在的子宫格合在一起（不重复）
+const boxesOf = (config: SudokuConfig, cells: CellPosition[]): CellPosition[] => {
+  const region: CellPosition[] = [];
+  for (const cell of cells) {
+    for (const other of boxOf(config, cell)) {
+      if (!region.some(item => samePosition(item, other))) region.push(other);
+    }
+  }
+  return region;
+};
+
+// 查找当前盘面的提示：先指出填错的数字，再用逻辑技巧找下一步，技巧无法推进时按答案给出候选数最少的一格；
+// 逻辑技巧从玩家的笔记出发（只采用包含正确答案的笔记），笔记中已经删去的候选数不会再提示；
+// 没有可以提示的内容时返回 null
+export function findHint(board: number[][], solution: number[][], config: SudokuConfig, notes: number[][][] = []): Hint | null {
+  const cells = getBoardCells(config);
+  if (solution.length === 0) return null;
+
+  const mistakes = cells.filter(({ row, col }) => board[row][col] !== 0 && board[row][col] !== solution[row][col]);
+  if (mistakes.length > 0) {
+    return { kind: 'mistake', level: 1, region: boxesOf(config, mistakes), targets: mistakes };
+  }
+
+  const trustedNotes = notes.map((row, r) => row.map((cellNotes, c) => (cellNotes.includes(solution[r]?.[c]) ? cellNotes : [])));
+  const step = new LogicalSolver(config).nextStep(board, trustedNotes);
+  if (step) {
+    const targets = step.placement ? [step.placement] : step.eliminations.filter((elimination, index, all) =>
+      all.findIndex(other => samePosition(other, elimination)) === index
+    );
+    // 技巧所在的区域；没有固定区域的技巧（唯一余数、X-Wing 等）用第一个目标格所在的子宫格
+    const unit = step.unit && getUnits(config).find(item => item.type === step.unit!.type && item.index === step.unit!.index);
+    return { kind: 'technique', level: 1, region: unit ? unit.cells : boxOf(config, targets[0]), step, targets };
+  }
+
+  let best: CellPosition | null = null;
+  let fewest = Infinity;
+  for (const cell of cells) {
+    if (board[cell.row][cell.col] !== 0 || solution[cell.row][cell.col] === 0) continue;
+    const count = getCandidates(board, config, cell.row, cell.col).length;
+    if (count < fewest) {
+      best = cell;
+      fewest = count;
+    }
+  }
+  if (!best) return null;
+  return {
+    kind: 'answer',
+    level: 1,
+    region: boxOf(config, best),
+    targets: [best],
+    placement: { ...best, value: solution[best.row][best.col] }
+  };
+}
+
+// 提示当前层次的说明文字
+export function describeHint(hint: Hint, config: SudokuConfig): string {
+  const format = (cells: CellPosition[]) => cells.map(({ row, col }) => formatBoardCell(config, row, col)).join('、');
+
+  if (hint.level === 1) {
+    return hint.kind === 'mistake' ? '高亮的区域里有填错的数字' : '高亮的区域里可以找到下一步';
+  }
+  if (hint.level === 2) {
+    if (hint.kind === 'mistake') return `共有 ${hint.targets.length} 个数字与答案不符`;
+    if (hint.kind === 'answer') return '现有的解题技巧无法继续推进，需要尝试填数';
+    return `可以使用「${TECHNIQUE_LABELS[hint.step!.technique]}」`;
+  }
+  if (hint.kind === 'mistake') return `${format(hint.targets)} 填错了`;
+  if (hint.kind === 'answer') return `${format(hint.targets)} 应该填 ${formatCellValue(hint.placement!.value)}`;
+  return describeStep(hint.step!, config);
+}
+
+// 格子在提示当前层次中的作用：第 3 层才标出关键格子和目标格子，没有作用时返回 null
+export function getHintCellRole(hint: Hint | null, row: number, col: number): HintCellRole | null {
+  if (!hint) return null;
+  const cell = { row, col };
+  if (hint.level === 3) {
+    if (hint.targets.some(target => samePosition(target, cell))) return 'target';
+    if (hint.step?.cells.some(other => samePosition(other, cell))) return 'pattern';
+  }
+  return hint.region.some(other => samePosition(other, cell)) ? 'region' : null;
+}
+
+// 第 3 层提示要删去的候选数是否包含格子中的 value
+export const isHintElimination = (hint: Hint | null, row: number, col: number, value: number): boolean =>
+  hint?.level === 3 && !!hint.step?.eliminations.some(item => item.row === row && item.col === col && item.value === value);
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+
+// 一个格子在图层中的位置：所在的外观组、在组中的实例下标、原始变换、临时缩放，以及动画中的位移和缩放
+interface CellSlot<K> {
+  key: K;
+  index: number;
+  matrix: THREE.Matrix4;
+  scale: THREE.Vector3 | null;
+  motion: { offset: THREE.Vector3; scale: number } | null;
+}
+
+// 实例化的格子图层：所有格子共用一份几何体，同一外观（材质）的格子画在同一个 InstancedMesh 里；
+// 格子换外观时只把它从一组移到另一组，整个棋盘最多只有外观种类数那么多次绘制
+export class InstancedCellLayer<K extends string> {
+  private parent: THREE.Object3D;
+  private geometry: THREE.BufferGeometry;
+  private capacity: number;
+  private materialOf: (key: K) => THREE.Material;
+  private meshes = new Map<K, THREE.InstancedMesh>();
+  // 每组中各个实例对应的格子编号
+  private members = new Map<K, number[]>();
+  private slots: CellSlot<K>[] = [];
+
+  // 图层接管 geometry，capacity 为格子总数（每组最多容纳全部格子）
+  constructor(parent: THREE.Object3D, geometry: THREE.BufferGeometry, capacity: number, materialOf: (key: K) => THREE.Material) {
+    this.parent = parent;
+    this.geometry = geometry;
+    this.capacity = capacity;
+    this.materialOf = materialOf;
+  }
+
+  // 加入一个格子，返回它的编号（按加入顺序从 0 开始）
+  add(matrix: THREE.Matrix4, key: K): number {
+    const id = this.slots.length;
+    this.slots.push({ key, index: -1, matrix: matrix.clone(), scale: null, motion: null });
+    this.insert(id, key);
+    return id;
+  }
+
+  // 改变格子的外观，外观不变时什么也不做
+  setKey(id: number, key: K) {
+    if (this.slots[id].key === key) return;
+    this.remove(id);
+    this.insert(id, key);
+  }
+
+  // 临时缩放格子（如悬停效果），scale 为 null 时恢复原状
+  setScale(id: number, scale: THREE.Vector3 | null) {
+    this.slots[id].scale = scale;
+    this.refresh(id);
+  }
+
+  // 动画中的位移（相对格子原来的位置）和整体缩放，offset 为 null 时恢复原状；与悬停缩放叠加
+  setMotion(id: number, offset: THREE.Vector3 | null, scale = 1) {
+    this.slots[id].motion = offset ? { offset: offset.clone(), scale } : null;
+    this.refresh(id);
+  }
+
+  // 参与射线检测的对象
+  get objects(): THREE.Object3D[] {
+    return [...this.meshes.values()];
+  }
+
+  // 射线命中的格子编号，命中的不是本图层时返回 null
+  pick(intersection: THREE.Intersection): number | null {
+    if (intersection.instanceId === undefined) return null;
+    for (const [key, mesh] of this.meshes) {
+      if (mesh === intersection.object) return this.members.get(key)![intersection.instanceId] ?? null;
+    }
+    return null;
+  }
+
+  // 材质重新创建后（切换主题或样式）更新各组的材质
+  refreshMaterials() {
+    this.meshes.forEach((mesh, key) => {
+      mesh.material = this.materialOf(key);
+    });
+  }
+
+  dispose() {
+    this.meshes.forEach(mesh => {
+      mesh.removeFromParent();
+      mesh.dispose();
+    });
+    this.meshes.clear();
+    this.members.clear();
+    this.geometry.dispose();
+  }
+
+  private displayMatrix(slot: CellSlot<K>): THREE.Matrix4 {
+    if (!slot.scale && !slot.motion) return slot.matrix;
+    const matrix = slot.matrix.clone();
+    if (slot.motion) {
+      matrix.multiply(new THREE.Matrix4().makeTranslation(slot.motion.offset));
+      matrix.scale(new THREE.Vector3().setScalar(slot.motion.scale));
+    }
+    if (slot.scale) matrix.scale(slot.scale);
+    return matrix;
+  }
+
+  private refresh(id: number) {
+    const slot = this.slots[id];
+    const mesh = this.meshes.get(slot.key)!;
+    mesh.setMatrixAt(slot.index, this.displayMatrix(slot));
+    this.touch(mesh);
+  }
+
+  private insert(id: number, key: K) {
+    const mesh = this.getMesh(key);
+    const members = this.members.get(key)!;
+    const slot = this.slots[id];
+    slot.key = key;
+    slot.index = members.length;
+    members.push(id);
+    mesh.count = members.length;
+    mesh.setMatrixAt(slot.index, this.displayMatrix(slot));
+    this.touch(mesh);
+  }
+
+  // 移出所在的组：组中最后一个实例填到空出的位置
+  private remove(id: number) {
+    const slot = this.slots[id];
+    const mesh = this.meshes.get(slot.key)!;
+    const members = this.members.get(slot.key)!;
+    const last = members.pop()!;
+    if (last !== id) {
+      members[slot.index] = last;
+      this.slots[last].index = slot.index;
+      mesh.setMatrixAt(slot.index, this.displayMatrix(this.slots[last]));
+    }
+    mesh.count = members.length;
+    this.touch(mesh);
+  }
+
+  private getMesh(key: K): THREE.InstancedMesh {
+    let mesh = this.meshes.get(key);
+    if (!mesh) {
+      mesh = new THREE.InstancedMesh(this.geometry, this.materialOf(key), this.capacity);
+      mesh.count = 0;
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      this.parent.add(mesh);
+      this.meshes.set(key, mesh);
+      this.members.set(key, []);
+    }
+    return mesh;
+  }
+
+  // 实例变化后需要重新上传矩阵，并重新计算包围球（用于视锥剔除和射线检测）
+  private touch(mesh: THREE.InstancedMesh) {
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.boundingSphere = null;
+  }
+}
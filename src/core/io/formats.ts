@@ -0,0 +1,307 @@
+import type { SudokuConfig } from '../../types/game';
+import { formatCellValue, parseCellKey } from '../../utils/formatter';
+import { isValidConstraintList } from '../constraints';
+import { isValidRegionMap } from '../regions';
+import { isValidCageList } from '../cages';
+import { isValidLineList } from '../lines';
+import { getBoardCols, getBoardRows, isValidLayout, MULTI_GRID_SIZE } from '../grids';
+
+// 解析后的题目：题面（只含题目数字）、当前盘面与笔记
+export interface ParsedPuzzle {
+  config: SudokuConfig;
+  givens: number[][];
+  board: number[][];
+  notes?: number[][][];
+}
+
+// 导出所需的游戏状态
+export interface PuzzleState {
+  config: SudokuConfig;
+  board: number[][];
+  preset: boolean[][];
+  notes: number[][][];
+}
+
+// 原文中的一行及其行号（从 1 开始）
+interface SourceLine {
+  text: string;
+  lineNumber: number;
+}
+
+// 格式错误时抛出，message 直接展示给用户
+export class PuzzleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PuzzleFormatError';
+  }
+}
+
+// 各规模默认的子宫格形状 [行数, 列数]
+const BOX_SHAPES: Record<number, [number, number]> = {
+  4: [2, 2],
+  6: [2, 3],
+  8: [2, 4],
+  9: [3, 3],
+  12: [3, 4],
+  16: [4, 4]
+};
+
+// 空格可以写成 . 0 _
+const EMPTY_SYMBOLS = '.0_';
+
+// JSON 格式的标识与版本
+const JSON_FORMAT = 'sudoku-puzzle';
+const JSON_VERSION = 1;
+
+// 根据边长（以及文本中给出的子宫格形状）确定棋盘配置
+export function inferConfig(size: number, subRows?: number, subCols?: number): SudokuConfig {
+  if (subRows && subCols && subRows * subCols === size) {
+    return { size, subRows, subCols, difficulty: 'medium' };
+  }
+  const shape = BOX_SHAPES[size];
+  if (!shape) {
+    throw new PuzzleFormatError(`不支持 ${size}×${size} 的棋盘`);
+  }
+  return { size, subRows: shape[0], subCols: shape[1], difficulty: 'medium' };
+}
+
+// 解析一个符号：1-9、A-G（10-16），空格为 . 0 _
+function parseSymbol(symbol: string, size: number, lineNumber: number): number {
+  const value = EMPTY_SYMBOLS.includes(symbol) ? 0 : parseCellKey(symbol, size);
+  if (value === null) {
+    throw new PuzzleFormatError(`第 ${lineNumber} 行包含无法识别的字符“${symbol}”`);
+  }
+  return value;
+}
+
+// 解析一行符号，lineNumber 为这一行在原文中的行号
+function parseRow(line: string, size: number, lineNumber: number): number[] {
+  if (line.length !== size) {
+    throw new PuzzleFormatError(`第 ${lineNumber} 行应有 ${size} 个字符，实际为 ${line.length} 个`);
+  }
+  return line.split('').map(symbol => parseSymbol(symbol, size, lineNumber));
+}
+
+const formatRow = (row: number[]): string =>
+  row.map(value => (value === 0 ? '.' : formatCellValue(value))).join('');
+
+// 只保留题目数字的题面
+const givensOf = (state: PuzzleState): number[][] =>
+  state.board.map((row, r) => row.map((value, c) => (state.preset[r][c] ? value : 0)));
+
+const hasProgress = (state: PuzzleState): boolean =>
+  state.board.some((row, r) => row.some((value, c) => value !== 0 && !state.preset[r][c]));
+
+// 一行格式：N×N 个字符连成一行，例如 81 字符的 9×9 题目
+export function parseLine(text: string): ParsedPuzzle {
+  // 记下每个符号所在的原始行，出错时报告真实的行号
+  const symbols = text.split(/\r?\n/).flatMap((raw, index) =>
+    raw.replace(/\s+/g, '').split('').map(symbol => ({ symbol, lineNumber: index + 1 }))
+  );
+  const size = Math.round(Math.sqrt(symbols.length));
+  if (size * size !== symbols.length) {
+    throw new PuzzleFormatError(`字符数 ${symbols.length} 不是平方数，无法组成棋盘`);
+  }
+
+  const config = inferConfig(size);
+  const givens = Array.from({ length: size }, (_, row) =>
+    symbols.slice(row * size, (row + 1) * size).map(({ symbol, lineNumber }) => parseSymbol(symbol, size, lineNumber))
+  );
+  return { config, givens, board: givens.map(row => [...row]) };
+}
+
+export function serializeLine(state: PuzzleState): string {
+  return givensOf(state).map(formatRow).join('');
+}
+
+// SadMan Sudoku 格式（.sdk）：# 开头的元数据行，[Puzzle] 为题面，可选的 [State] 为当前进度
+export function parseSadMan(text: string): ParsedPuzzle {
+  const sections: Record<string, SourceLine[]> = { puzzle: [] };
+  let section = 'puzzle';
+
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const header = line.match(/^\[(\w+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      sections[section] = [];
+      continue;
+    }
+    sections[section].push({ text: line, lineNumber: index + 1 });
+  }
+
+  const rows = sections.puzzle;
+  const size = rows.length;
+  const config = inferConfig(size);
+  const givens = rows.map(({ text, lineNumber }) => parseRow(text, size, lineNumber));
+
+  let board = givens.map(row => [...row]);
+  if (sections.state?.length) {
+    if (sections.state.length !== size) {
+      throw new PuzzleFormatError(`[State] 应有 ${size} 行`);
+    }
+    board = sections.state.map(({ text, lineNumber }) => parseRow(text, size, lineNumber));
+  }
+
+  return { config, givens, board };
+}
+
+export function serializeSadMan(state: PuzzleState): string {
+  const lines = [
+    `#B${new Date().toISOString().slice(0, 10)}`,
+    '[Puzzle]',
+    ...givensOf(state).map(formatRow)
+  ];
+  if (hasProgress(state)) {
+    lines.push('[State]', ...state.board.map(formatRow));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Simple Sudoku 格式（.ss）：用 | 和 - 画出子宫格边界
+export function parseSimpleSudoku(text: string): ParsedPuzzle {
+  const rows: SourceLine[] = [];
+  let subRows: number | undefined;
+  let subCols: number | undefined;
+
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.trim();
+    if (!line) continue;
+    // 分隔行：第一条分隔行之前的行数就是子宫格的行数
+    if (/^[-+|\s]+$/.test(line)) {
+      if (subRows === undefined && rows.length > 0) subRows = rows.length;
+      continue;
+    }
+    // 第一个 | 之前的字符数就是子宫格的列数
+    const compact = line.replace(/\s+/g, '');
+    if (subCols === undefined && compact.includes('|')) subCols = compact.indexOf('|');
+    rows.push({ text: compact.replace(/\|/g, ''), lineNumber: index + 1 });
+  }
+
+  const size = rows.length;
+  const config = inferConfig(size, subRows, subCols);
+  const givens = rows.map(({ text, lineNumber }) => parseRow(text, size, lineNumber));
+  return { config, givens, board: givens.map(row => [...row]) };
+}
+
+export function serializeSimpleSudoku(state: PuzzleState): string {
+  const { size, subRows, subCols } = state.config;
+  const lines: string[] = [];
+
+  givensOf(state).forEach((row, r) => {
+    if (r > 0 && r % subRows === 0) {
+      lines.push('-'.repeat(size + size / subCols - 1));
+    }
+    const groups: string[] = [];
+    for (let c = 0; c < size; c += subCols) {
+      groups.push(formatRow(row.slice(c, c + subCols)));
+    }
+    lines.push(groups.join('|'));
+  });
+  return lines.join('\n') + '\n';
+}
+
+const isGrid = (value: unknown, rows: number, cols: number): value is unknown[][] =>
+  Array.isArray(value) && value.length === rows && value.every(row => Array.isArray(row) && row.length === cols);
+
+// JSON 格式：完整保存配置、题目标记、当前盘面与笔记
+export function parseJson(text: string): ParsedPuzzle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new PuzzleFormatError('JSON 格式错误');
+  }
+  // null、数字、数组等合法的 JSON 也不是题目
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new PuzzleFormatError('JSON 格式错误');
+  }
+  const data = parsed as Record<string, unknown>;
+
+  if (data.format !== JSON_FORMAT) {
+    throw new PuzzleFormatError('不是本游戏导出的 JSON 题目');
+  }
+  if (typeof data.version !== 'number' || data.version > JSON_VERSION) {
+    throw new PuzzleFormatError('JSON 题目来自更新的版本，无法读取');
+  }
+
+  const raw = data.config as Partial<SudokuConfig> | undefined;
+  if (!raw || typeof raw.size !== 'number') {
+    throw new PuzzleFormatError('JSON 题目缺少棋盘配置');
+  }
+  const { size } = raw;
+  const config: SudokuConfig = raw.regions === undefined
+    ? { ...inferConfig(size, raw.subRows, raw.subCols), difficulty: raw.difficulty ?? 'medium' }
+    : { size, subRows: 1, subCols: size, difficulty: raw.difficulty ?? 'medium', regions: raw.regions };
+  if (config.regions && !isValidRegionMap(config.regions, size)) {
+    throw new PuzzleFormatError(`JSON 题目的区域划分无效：每个区域应有 ${size} 个相连的格子`);
+  }
+  if (raw.constraints !== undefined) {
+    if (!isValidConstraintList(raw.constraints)) {
+      throw new PuzzleFormatError('JSON 题目包含无法识别的变体规则');
+    }
+    config.constraints = raw.constraints;
+  }
+  if (raw.cages !== undefined) {
+    if (!isValidCageList(raw.cages, size)) {
+      throw new PuzzleFormatError('JSON 题目的笼子无效：格子不能重叠，总和必须可以凑出');
+    }
+    config.cages = raw.cages.map(({ cells, sum }) => ({ cells: cells.map(({ row, col }) => ({ row, col })), sum }));
+  }
+  if (raw.lines !== undefined) {
+    if (!isValidLineList(raw.lines, size)) {
+      throw new PuzzleFormatError('JSON 题目的线条无效：线上的格子必须首尾相接，且不同的线不能共用格子');
+    }
+    config.lines = raw.lines.map(({ type, cells }) => ({ type, cells: cells.map(({ row, col }) => ({ row, col })) }));
+  }
+  if (raw.cube !== undefined) {
+    if (typeof raw.cube !== 'boolean' || (raw.cube && (config.regions || config.constraints?.length || config.cages || config.lines?.length))) {
+      throw new PuzzleFormatError('JSON 题目的立方体设置无效：立方体数独只使用标准规则');
+    }
+    if (raw.cube) config.cube = true;
+  }
+  if (raw.layout !== undefined) {
+    const combined = config.regions || config.constraints?.length || config.cages || config.lines?.length || config.cube;
+    if (!isValidLayout(raw.layout) || size !== MULTI_GRID_SIZE || config.subRows !== 3 || combined) {
+      throw new PuzzleFormatError('JSON 题目的多宫格布局无效：多宫格数独由标准 9×9 数独组成');
+    }
+    config.layout = raw.layout;
+  }
+
+  const rows = getBoardRows(config);
+  const cols = getBoardCols(config);
+  if (!isGrid(data.board, rows, cols) || !isGrid(data.preset, rows, cols)) {
+    throw new PuzzleFormatError('JSON 题目的盘面大小与配置不符');
+  }
+  const board = data.board.map(row => row.map(value => {
+    if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > size) {
+      throw new PuzzleFormatError(`盘面中的数字“${value}”超出范围`);
+    }
+    return value as number;
+  }));
+  const preset = data.preset.map(row => row.map(Boolean));
+  const givens = board.map((row, r) => row.map((value, c) => (preset[r][c] ? value : 0)));
+
+  // 笔记只保留范围内的数字
+  const notes = isGrid(data.notes, rows, cols)
+    ? data.notes.map((row, r) => row.map((cell, c) =>
+        board[r][c] === 0 && Array.isArray(cell)
+          ? [...new Set(cell.filter((value): value is number => Number.isInteger(value) && value >= 1 && value <= size))].sort((a, b) => a - b)
+          : []
+      ))
+    : undefined;
+
+  return { config, givens, board, notes };
+}
+
+export function serializeJson(state: PuzzleState): string {
+  return JSON.stringify({
+    format: JSON_FORMAT,
+    version: JSON_VERSION,
+    config: state.config,
+    board: state.board,
+    preset: state.preset,
+    notes: state.notes
+  }, null, 2);
+}
@@ -0,0 +1,151 @@
+import type { DifficultyGrade, SudokuConfig } from '../../types/game';
+import { countSolutions, solveExactly } from '../dlx';
+import { gradePuzzle } from '../grader';
+import { solveLogically } from '../solver';
+import { SudokuValidator } from '../validator';
+import { formatBoardCell } from '../cube';
+import { getBoardCells, getBoardCols, getBoardRows, isBoardCell } from '../grids';
+import {
+  parseJson,
+  parseLine,
+  parseSadMan,
+  parseSimpleSudoku,
+  PuzzleFormatError,
+  serializeJson,
+  serializeLine,
+  serializeSadMan,
+  serializeSimpleSudoku,
+  type ParsedPuzzle,
+  type PuzzleState
+} from './formats';
+import { parseShareHash } from './share';
+
+export { PuzzleFormatError, type ParsedPuzzle, type PuzzleState } from './formats';
+export { createShareHash } from './share';
+
+// 证明导入题目唯一解时每个格子允许的搜索步数；超出时拒绝导入，避免稀疏或变体盘面卡住页面
+const IMPORT_SEARCH_STEPS_PER_CELL = 1000;
+
+export type PuzzleFormat = 'line' | 'sadman' | 'simple-sudoku' | 'json';
+
+// 支持的格式及其文件扩展名
+export const PUZZLE_FORMATS: Array<{ value: PuzzleFormat; label: string; extension: string }> = [
+  { value: 'line', label: '单行（81 字符）', extension: 'txt' },
+  { value: 'sadman', label: 'SadMan Sudoku（.sdk）', extension: 'sdk' },
+  { value: 'simple-sudoku', label: 'Simple Sudoku（.ss）', extension: 'ss' },
+  { value: 'json', label: 'JSON（含进度和笔记）', extension: 'json' }
+];
+
+// 通过校验、可以开始游戏的题目
+export interface ImportedPuzzle {
+  config: SudokuConfig;
+  puzzle: number[][];
+  solution: number[][];
+  preset: boolean[][];
+  board: number[][];
+  notes?: number[][][];
+  grade: DifficultyGrade;
+  seed?: string;
+}
+
+// 根据文本的特征判断格式
+export function detectFormat(text: string): PuzzleFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return 'json';
+  if (/^\s*(#|\[\w+\])/m.test(trimmed)) return 'sadman';
+  if (trimmed.includes('|') || /^[-+]{3,}$/m.test(trimmed)) return 'simple-sudoku';
+  if (!/\s/.test(trimmed)) return 'line';
+  // 多行且没有分隔符：逐行书写的棋盘，按 SadMan 格式读取
+  return 'sadman';
+}
+
+export function parsePuzzle(text: string, format: PuzzleFormat = detectFormat(text)): ParsedPuzzle {
+  switch (format) {
+    case 'line':
+      return parseLine(text);
+    case 'sadman':
+      return parseSadMan(text);
+    case 'simple-sudoku':
+      return parseSimpleSudoku(text);
+    case 'json':
+      return parseJson(text);
+  }
+}
+
+// 只有 JSON 格式能保存不规则区域、变体规则、笼子、线条、立方体的六个面和多宫格布局，其余格式导出时会丢失它们
+export function serializePuzzle(state: PuzzleState, format: PuzzleFormat): string {
+  const { regions, constraints, cages, lines, cube, layout } = state.config;
+  if ((regions || constraints?.length || cages || lines?.length || cube || layout) && format !== 'json') {
+    throw new PuzzleFormatError('锯齿数独、变体规则、杀手数独、线条规则、立方体数独和多宫格数独只能导出为 JSON 格式');
+  }
+  switch (format) {
+    case 'line':
+      return serializeLine(state);
+    case 'sadman':
+      return serializeSadMan(state);
+    case 'simple-sudoku':
+      return serializeSimpleSudoku(state);
+    case 'json':
+      return serializeJson(state);
+  }
+}
+
+// 导入题目：解析后检查题面并证明解唯一
+export function importPuzzle(text: string, format?: PuzzleFormat): ImportedPuzzle {
+  return preparePuzzle(parsePuzzle(text, format));
+}
+
+// 打开分享链接中的题目；链接中没有题目时返回 null
+export function importSharedPuzzle(hash: string): ImportedPuzzle | null {
+  const shared = parseShareHash(hash);
+  return shared ? { ...preparePuzzle(shared), seed: shared.seed } : null;
+}
+
+// 用校验器检查题面，证明解唯一并求出答案，再评定难度
+function preparePuzzle(parsed: ParsedPuzzle): ImportedPuzzle {
+  const { config, givens, board } = parsed;
+
+  const validation = new SudokuValidator(config).validate(givens);
+  if (!validation.isValid) {
+    const [conflict] = validation.conflicts!;
+    throw new PuzzleFormatError(`题目在 ${formatBoardCell(config, conflict.row, conflict.col)} 处有重复数字`);
+  }
+
+  // 当前盘面不能改动题目数字，多宫格数独的空位不能有数字
+  const preset = givens.map(row => row.map(value => value !== 0));
+  for (let row = 0; row < getBoardRows(config); row++) {
+    for (let col = 0; col < getBoardCols(config); col++) {
+      if (!isBoardCell(config, row, col) && board[row][col] !== 0) {
+        throw new PuzzleFormatError(`多宫格数独的空位 ${formatBoardCell(config, row, col)} 不能有数字`);
+      }
+      if (preset[row][col] && board[row][col] !== givens[row][col]) {
+        throw new PuzzleFormatError(`进度与题目在 ${formatBoardCell(config, row, col)} 处不一致`);
+      }
+    }
+  }
+
+  // 逻辑求解成功本身就证明了唯一解；否则交给舞蹈链数解（纯笼子的空盘面靠舞蹈链很难证明）
+  const logical = solveLogically(givens, config);
+  const maxSteps = getBoardCells(config).length * IMPORT_SEARCH_STEPS_PER_CELL;
+  const solutions = logical.solved ? 1 : countSolutions(givens, config, 2, maxSteps);
+  if (solutions === null) {
+    throw new PuzzleFormatError('唯一性未经验证：无法在限定步数内证明题目只有一个解');
+  }
+  if (solutions === 0) {
+    throw new PuzzleFormatError('题目无解');
+  }
+  if (solutions > 1) {
+    throw new PuzzleFormatError('题目有多个解');
+  }
+
+  const grade = gradePuzzle(givens, config);
+  return {
+    config: { ...config, difficulty: grade.difficulty },
+    puzzle: givens,
+    solution: logical.solved ? logical.board : solveExactly(givens, config, undefined, maxSteps)!,
+    preset,
+    board,
+    notes: parsed.notes,
+    grade
+  };
+}
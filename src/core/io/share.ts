@@ -0,0 +1,230 @@
+import type { Cage, LineClue, LineType } from '../../types/game';
+import { hashSeed } from '../random';
+import { isValidConstraintList } from '../constraints';
+import { isValidRegionMap } from '../regions';
+import { isValidCageList } from '../cages';
+import { isValidLineList, LINE_CODES } from '../lines';
+import { getBoardCols, getBoardRows, isValidLayout, MULTI_GRID_SIZE } from '../grids';
+import { formatCellValue, parseCellKey } from '../../utils/formatter';
+import { inferConfig, PuzzleFormatError, type ParsedPuzzle, type PuzzleState } from './formats';
+
+// 分享链接中的题目，附带生成它的种子
+export interface SharedPuzzle extends ParsedPuzzle {
+  seed?: string;
+}
+
+// 分享链接格式的版本
+const SHARE_VERSION = '1';
+
+// 连续空格用小写字母表示长度（a=1 … z=26），数字用 1-9、A-G
+function encodeCells(cells: number[]): string {
+  let result = '';
+  let empty = 0;
+  const flush = () => {
+    while (empty > 0) {
+      const run = Math.min(empty, 26);
+      result += String.fromCharCode(96 + run);
+      empty -= run;
+    }
+  };
+
+  for (const value of cells) {
+    if (value === 0) {
+      empty++;
+      continue;
+    }
+    flush();
+    result += formatCellValue(value);
+  }
+  flush();
+  return result;
+}
+
+function decodeCells(text: string, size: number, count: number): number[] {
+  const cells: number[] = [];
+  for (const symbol of text) {
+    if (/^[a-z]$/.test(symbol)) {
+      for (let i = 0; i < symbol.charCodeAt(0) - 96; i++) cells.push(0);
+      continue;
+    }
+    const value = /^[1-9A-G]$/.test(symbol) ? parseCellKey(symbol, size) : null;
+    if (!value) {
+      throw new PuzzleFormatError('分享链接中的盘面包含无效字符');
+    }
+    cells.push(value);
+  }
+  if (cells.length !== count) {
+    throw new PuzzleFormatError('分享链接中的盘面大小不正确');
+  }
+  return cells;
+}
+
+// 不规则区域：每个格子的区域编号写成一位 36 进制字符，按行排列
+const encodeRegions = (regions: number[][]): string =>
+  regions.flat().map(id => id.toString(36)).join('');
+
+function decodeRegions(text: string, size: number): number[][] {
+  const ids = text.split('').map(symbol => parseInt(symbol, 36));
+  const regions = ids.length === size * size ? toGrid(ids, size) : null;
+  if (!isValidRegionMap(regions, size)) {
+    throw new PuzzleFormatError('分享链接中的区域划分无效');
+  }
+  return regions;
+}
+
+// 笼子：每个笼子写成“总和.格子序号.格子序号…”（序号为 36 进制），笼子之间用 - 分隔
+const encodeCages = (cages: Cage[], size: number): string =>
+  cages.map(({ cells, sum }) => [sum, ...cells.map(({ row, col }) => (row * size + col).toString(36))].join('.')).join('-');
+
+function decodeCages(text: string, size: number): Cage[] {
+  const cages = text.split('-').map(part => {
+    const [sum, ...cells] = part.split('.');
+    return {
+      cells: cells.map(symbol => {
+        const index = parseInt(symbol, 36);
+        return { row: Math.floor(index / size), col: index % size };
+      }),
+      sum: Number(sum)
+    };
+  });
+  if (!isValidCageList(cages, size)) {
+    throw new PuzzleFormatError('分享链接中的笼子无效');
+  }
+  return cages;
+}
+
+// 线条：每条线写成“类型简写.格子序号.格子序号…”（序号为 36 进制），线之间用 - 分隔
+const encodeLines = (lines: LineClue[], size: number): string =>
+  lines.map(({ type, cells }) => [LINE_CODES[type], ...cells.map(({ row, col }) => (row * size + col).toString(36))].join('.')).join('-');
+
+function decodeLines(text: string, size: number): LineClue[] {
+  const types = Object.keys(LINE_CODES) as LineType[];
+  const lines = text.split('-').map(part => {
+    const [code, ...cells] = part.split('.');
+    return {
+      type: types.find(type => LINE_CODES[type] === code)!,
+      cells: cells.map(symbol => {
+        const index = parseInt(symbol, 36);
+        return { row: Math.floor(index / size), col: index % size };
+      })
+    };
+  });
+  if (!isValidLineList(lines, size)) {
+    throw new PuzzleFormatError('分享链接中的线条无效');
+  }
+  return lines;
+}
+
+const toGrid = (cells: number[], cols: number): number[][] =>
+  Array.from({ length: cells.length / cols }, (_, row) => cells.slice(row * cols, (row + 1) * cols));
+
+// 校验码：防止链接被截断或改动后加载出错误的盘面
+const checksum = (payload: string): string => hashSeed(payload).toString(36);
+
+// 生成分享链接的 hash 部分（不含 #）；includeProgress 为 true 时附带已填的数字
+export function createShareHash(state: PuzzleState & { seed: string | null }, includeProgress = false): string {
+  const { size, subRows, subCols } = state.config;
+  const cells = state.board.flat();
+  const preset = state.preset.flat();
+
+  const params = new URLSearchParams({
+    v: SHARE_VERSION,
+    n: String(size),
+    box: `${subRows}x${subCols}`,
+    g: encodeCells(cells.map((value, index) => (preset[index] ? value : 0)))
+  });
+  if (state.config.regions) {
+    params.set('r', encodeRegions(state.config.regions));
+  }
+  if (state.config.constraints?.length) {
+    params.set('k', state.config.constraints.join(','));
+  }
+  if (state.config.cages) {
+    params.set('cg', encodeCages(state.config.cages, size));
+  }
+  if (state.config.lines?.length) {
+    params.set('ln', encodeLines(state.config.lines, size));
+  }
+  if (state.config.cube) {
+    params.set('cube', '1');
+  }
+  if (state.config.layout) {
+    params.set('grid', state.config.layout);
+  }
+  if (includeProgress) {
+    params.set('f', encodeCells(cells.map((value, index) => (preset[index] ? 0 : value))));
+  }
+  if (state.seed) {
+    params.set('seed', state.seed);
+  }
+  params.set('c', checksum(params.toString()));
+  return params.toString();
+}
+
+// 解析分享链接的 hash；没有题目时返回 null，链接损坏时抛出 PuzzleFormatError
+export function parseShareHash(hash: string): SharedPuzzle | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (!params.has('g')) return null;
+
+  const expected = params.get('c');
+  params.delete('c');
+  if (!expected || checksum(params.toString()) !== expected) {
+    throw new PuzzleFormatError('分享链接已损坏或被修改');
+  }
+  if (params.get('v') !== SHARE_VERSION) {
+    throw new PuzzleFormatError('分享链接来自不支持的版本');
+  }
+
+  const size = Number(params.get('n'));
+  const [subRows, subCols] = (params.get('box') ?? '').split('x').map(Number);
+  if (!Number.isInteger(size) || !Number.isInteger(subRows) || !Number.isInteger(subCols) || subRows * subCols !== size) {
+    throw new PuzzleFormatError('分享链接中的棋盘规模无效');
+  }
+  const config = params.has('r')
+    ? { ...inferConfig(size, subRows, subCols), regions: decodeRegions(params.get('r')!, size) }
+    : inferConfig(size, subRows, subCols);
+  if (params.has('k')) {
+    const constraints = params.get('k')!.split(',');
+    if (!isValidConstraintList(constraints)) {
+      throw new PuzzleFormatError('分享链接中的变体规则无效');
+    }
+    config.constraints = constraints;
+  }
+  if (params.has('cg')) {
+    config.cages = decodeCages(params.get('cg')!, size);
+  }
+  if (params.has('ln')) {
+    config.lines = decodeLines(params.get('ln')!, size);
+  }
+  if (params.has('cube')) {
+    if (params.get('cube') !== '1' || config.regions || config.constraints || config.cages || config.lines) {
+      throw new PuzzleFormatError('分享链接中的立方体设置无效');
+    }
+    config.cube = true;
+  }
+  if (params.has('grid')) {
+    const layout = params.get('grid');
+    const combined = config.regions || config.constraints || config.cages || config.lines || config.cube;
+    if (!isValidLayout(layout) || size !== MULTI_GRID_SIZE || subRows !== 3 || combined) {
+      throw new PuzzleFormatError('分享链接中的多宫格布局无效');
+    }
+    config.layout = layout;
+  }
+
+  // 立方体数独的盘面是六个面依次排列，多宫格数独的盘面包括各数独之间的空位
+  const cols = getBoardCols(config);
+  const count = getBoardRows(config) * cols;
+  const givens = decodeCells(params.get('g')!, size, count);
+  const filled = params.has('f') ? decodeCells(params.get('f')!, size, count) : [];
+  if (filled.some((value, index) => value !== 0 && givens[index] !== 0)) {
+    throw new PuzzleFormatError('分享链接中的进度覆盖了题目数字');
+  }
+
+  const board = givens.map((value, index) => value || filled[index] || 0);
+  return {
+    config,
+    givens: toGrid(givens, cols),
+    board: toGrid(board, cols),
+    seed: params.get('seed') ?? undefined
+  };
+}
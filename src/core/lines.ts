@@ -0,0 +1,300 @@
+import type { CellPosition, LineClue, LineType, SudokuConfig } from '../types/game';
+import type { CellRelation, ConstraintRule } from './constraints';
+import type { RandomSource } from './random';
+
+// 线条规则的说明
+export const LINE_DESCRIPTIONS: Record<LineType, string> = {
+  thermo: '温度计上的数字从球端开始严格递增',
+  arrow: '圆圈中的数字等于箭头经过的数字之和',
+  palindrome: '回文线上的数字从两端读起相同',
+  whisper: '德式耳语线上相邻两格的数字至少相差一半',
+  renban: '连续线上的数字互不相同，且组成一段连续的数字'
+};
+
+// 分享链接中线条类型的简写
+export const LINE_CODES: Record<LineType, string> = {
+  thermo: 't',
+  arrow: 'a',
+  palindrome: 'p',
+  whisper: 'w',
+  renban: 'r'
+};
+
+// 生成线条时的长度范围（箭头包含圆圈）
+const MIN_LINE_LENGTH = 3;
+const MAX_LINE_LENGTH = 6;
+
+// 每条线的最大尝试次数
+const MAX_LINE_ATTEMPTS = 100;
+
+const KING_OFFSETS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+
+// 德式耳语线上相邻数字的最小差：9×9 为 5，其他规模取边长的一半（向上取整）
+export const getWhisperGap = (size: number): number => Math.ceil(size / 2);
+
+const range = (size: number, accept: (value: number) => boolean): number[] =>
+  Array.from({ length: size }, (_, i) => i + 1).filter(accept);
+
+// 两两约束形式的线条规则；同一种参数的规则只创建一次
+const ruleCache = new Map<string, ConstraintRule>();
+const cachedRule = (key: string, create: () => ConstraintRule): ConstraintRule => {
+  if (!ruleCache.has(key)) ruleCache.set(key, create());
+  return ruleCache.get(key)!;
+};
+
+// 温度计：相隔 distance 格（正数表示对方更靠近顶端）的两格至少相差 |distance|
+const thermoRule = (distance: number) => cachedRule(`thermo:${distance}`, () => ({
+  type: 'thermo',
+  description: LINE_DESCRIPTIONS.thermo,
+  forbidden: (value, size) => range(size, other => (distance > 0 ? other < value + distance : other > value + distance))
+}));
+
+// 回文线：对称位置的两格相同
+const PALINDROME_RULE: ConstraintRule = {
+  type: 'palindrome',
+  description: LINE_DESCRIPTIONS.palindrome,
+  forbidden: (value, size) => range(size, other => other !== value)
+};
+
+// 德式耳语线：相邻两格之差不小于 getWhisperGap
+const WHISPER_RULE: ConstraintRule = {
+  type: 'whisper',
+  description: LINE_DESCRIPTIONS.whisper,
+  forbidden: (value, size) => range(size, other => Math.abs(other - value) < getWhisperGap(size))
+};
+
+// 连续线：长度为 length 的线上任意两格不同且相差不超过 length - 1，合起来正好是一段连续的数字
+const renbanRule = (length: number) => cachedRule(`renban:${length}`, () => ({
+  type: 'renban',
+  description: LINE_DESCRIPTIONS.renban,
+  forbidden: (value, size) => range(size, other => other === value || Math.abs(other - value) > length - 1)
+}));
+
+// 箭头：圆圈比箭头上的每一格至少大（箭头格数 - 1），toCircle 表示对方是圆圈
+const arrowRule = (count: number, toCircle: boolean) => cachedRule(`arrow:${count}:${toCircle}`, () => ({
+  type: 'arrow',
+  description: LINE_DESCRIPTIONS.arrow,
+  forbidden: (value, size) => range(size, other => (toCircle ? other < value + count - 1 : other > value - count + 1))
+}));
+
+const indexOfCell = (line: LineClue, row: number, col: number): number =>
+  line.cells.findIndex(cell => cell.row === row && cell.col === col);
+
+// 与 (row, col) 在同一条线上、存在两两约束的格子
+export function getLineRelations(config: SudokuConfig, row: number, col: number): CellRelation[] {
+  const relations: CellRelation[] = [];
+  for (const line of config.lines ?? []) {
+    const index = indexOfCell(line, row, col);
+    if (index < 0) continue;
+    const { cells } = line;
+    switch (line.type) {
+      case 'thermo':
+        cells.forEach((cell, i) => {
+          if (i !== index) relations.push({ ...cell, rule: thermoRule(i - index) });
+        });
+        break;
+      case 'palindrome': {
+        const mirror = cells.length - 1 - index;
+        if (mirror !== index) relations.push({ ...cells[mirror], rule: PALINDROME_RULE });
+        break;
+      }
+      case 'whisper':
+        for (const i of [index - 1, index + 1]) {
+          if (cells[i]) relations.push({ ...cells[i], rule: WHISPER_RULE });
+        }
+        break;
+      case 'renban':
+        cells.forEach((cell, i) => {
+          if (i !== index) relations.push({ ...cell, rule: renbanRule(cells.length) });
+        });
+        break;
+      case 'arrow':
+        if (index === 0) {
+          cells.slice(1).forEach(cell => relations.push({ ...cell, rule: arrowRule(cells.length - 1, false) }));
+        } else {
+          relations.push({ ...cells[0], rule: arrowRule(cells.length - 1, true) });
+        }
+        break;
+    }
+  }
+  return relations;
+}
+
+// 箭头当前的状态：圆圈的值（未填为 0）、箭头上已填的和与空格数
+function getArrowState(board: number[][], line: LineClue) {
+  const [circle, ...arrow] = line.cells;
+  let sum = 0;
+  let empty = 0;
+  for (const { row, col } of arrow) {
+    if (board[row][col] === 0) {
+      empty++;
+    } else {
+      sum += board[row][col];
+    }
+  }
+  return { circle: board[circle.row][circle.col], sum, empty };
+}
+
+// 箭头的总和是否已经不可能满足
+export function isArrowSumBroken(board: number[][], line: LineClue, size: number): boolean {
+  const { circle, sum, empty } = getArrowState(board, line);
+  if (circle === 0) return sum + empty > size;
+  return sum + empty > circle || sum + empty * size < circle;
+}
+
+// 箭头上第 index 格（空格）还能填的数字（位掩码），只考虑总和的上下界
+export function getArrowCandidates(board: number[][], line: LineClue, size: number, index: number): number {
+  const { circle, sum, empty } = getArrowState(board, line);
+  let min: number;
+  let max: number;
+  if (index === 0) {
+    min = sum + empty;
+    max = sum + empty * size;
+  } else if (circle === 0) {
+    min = 1;
+    max = size - sum - (empty - 1);
+  } else {
+    min = circle - sum - (empty - 1) * size;
+    max = circle - sum - (empty - 1);
+  }
+  return range(size, value => value >= min && value <= max).reduce((mask, value) => mask | (1 << (value - 1)), 0);
+}
+
+// 包含 (row, col) 的箭头
+export const getArrowsOf = (config: SudokuConfig, row: number, col: number): Array<{ line: LineClue; index: number }> =>
+  (config.lines ?? [])
+    .filter(line => line.type === 'arrow')
+    .map(line => ({ line, index: indexOfCell(line, row, col) }))
+    .filter(({ index }) => index >= 0);
+
+// 检查线条列表：类型有效、格子在棋盘内且首尾相接（含斜向），不同的线不共用格子
+export function isValidLineList(lines: unknown, size: number): lines is LineClue[] {
+  if (!Array.isArray(lines)) return false;
+  const seen = new Set<number>();
+  return lines.every(line => {
+    if (!line || !Object.keys(LINE_CODES).includes(line.type) || !Array.isArray(line.cells)) return false;
+    if (line.cells.length < 2 || line.cells.length > size * size) return false;
+    return line.cells.every((cell: CellPosition, i: number) => {
+      if (!cell || !Number.isInteger(cell.row) || !Number.isInteger(cell.col)) return false;
+      if (cell.row < 0 || cell.col < 0 || cell.row >= size || cell.col >= size) return false;
+      const key = cell.row * size + cell.col;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      const previous = line.cells[i - 1];
+      return !previous || Math.max(Math.abs(previous.row - cell.row), Math.abs(previous.col - cell.col)) === 1;
+    });
+  });
+}
+
+// 按终盘随机画出各类线条：每种线条约 size / 3 条，线条之间不共用格子
+export function generateLines(solution: number[][], random: RandomSource, types: LineType[]): LineClue[] {
+  const size = solution.length;
+  const used = Array.from({ length: size }, () => Array(size).fill(false));
+  const value = ({ row, col }: CellPosition) => solution[row][col];
+  const pick = <T>(items: T[]): T | undefined => items[Math.floor(random() * items.length)];
+  const randomLength = () =>
+    MIN_LINE_LENGTH + Math.floor(random() * (Math.min(MAX_LINE_LENGTH, size) - MIN_LINE_LENGTH + 1));
+
+  // 与 cell 相邻（含斜向）且还没被占用的格子
+  const neighbours = (cell: CellPosition, path: CellPosition[]): CellPosition[] =>
+    KING_OFFSETS
+      .map(([dr, dc]) => ({ row: cell.row + dr, col: cell.col + dc }))
+      .filter(({ row, col }) =>
+        row >= 0 && col >= 0 && row < size && col < size && !used[row][col] &&
+        !path.some(other => other.row === row && other.col === col)
+      );
+
+  // 从 start 出发随机延伸，每一步都要满足 canExtend，直到 done 或无路可走
+  const walk = (
+    start: CellPosition,
+    canExtend: (path: CellPosition[], next: CellPosition) => boolean,
+    done: (path: CellPosition[]) => boolean
+  ): CellPosition[] => {
+    const path = [start];
+    while (!done(path)) {
+      const next = pick(neighbours(path[path.length - 1], path).filter(cell => canExtend(path, cell)));
+      if (!next) break;
+      path.push(next);
+    }
+    return path;
+  };
+
+  // 回文线从中心向两端同时延伸，两端新加入的格子数字相同
+  const palindrome = (center: CellPosition, length: number): CellPosition[] => {
+    const path = [center];
+    while (path.length + 2 <= length) {
+      const heads = neighbours(path[0], path);
+      const tails = neighbours(path[path.length - 1], path);
+      const pairs = heads.flatMap(head =>
+        tails
+          .filter(tail => value(tail) === value(head) && (tail.row !== head.row || tail.col !== head.col))
+          .map(tail => [head, tail] as const)
+      );
+      const pair = pick(pairs);
+      if (!pair) break;
+      path.unshift(pair[0]);
+      path.push(pair[1]);
+    }
+    return path;
+  };
+
+  const createLine = (type: LineType): CellPosition[] | null => {
+    const starts: CellPosition[] = [];
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (!used[row][col]) starts.push({ row, col });
+      }
+    }
+    const start = pick(starts);
+    if (!start) return null;
+
+    const length = randomLength();
+    const values = (path: CellPosition[]) => path.map(value);
+    switch (type) {
+      case 'thermo': {
+        const path = walk(start, (path, next) => value(next) > value(path[path.length - 1]), path => path.length >= length);
+        return path.length >= MIN_LINE_LENGTH ? path : null;
+      }
+      case 'whisper': {
+        const gap = getWhisperGap(size);
+        const path = walk(start, (path, next) => Math.abs(value(next) - value(path[path.length - 1])) >= gap, path => path.length >= length);
+        return path.length >= MIN_LINE_LENGTH ? path : null;
+      }
+      case 'renban': {
+        const path = walk(start, (path, next) => {
+          const extended = [...values(path), value(next)];
+          return new Set(extended).size === extended.length && Math.max(...extended) - Math.min(...extended) <= length - 1;
+        }, path => path.length >= length);
+        const span = Math.max(...values(path)) - Math.min(...values(path));
+        return path.length >= MIN_LINE_LENGTH && span === path.length - 1 ? path : null;
+      }
+      case 'palindrome': {
+        const path = palindrome(start, length % 2 === 1 ? length : length + 1);
+        return path.length >= MIN_LINE_LENGTH ? path : null;
+      }
+      case 'arrow': {
+        // 圆圈的数字等于箭头经过的数字之和，箭头至少两格
+        const target = value(start);
+        const sum = (path: CellPosition[]) => values(path.slice(1)).reduce((total, v) => total + v, 0);
+        const path = walk(start, (path, next) => {
+          const total = sum(path) + value(next);
+          return total < target || (total === target && path.length >= 2);
+        }, path => sum(path) === target);
+        return path.length >= MIN_LINE_LENGTH && sum(path) === target ? path : null;
+      }
+    }
+  };
+
+  const lines: LineClue[] = [];
+  const count = Math.max(1, Math.round(size / 3));
+  for (const type of types) {
+    for (let made = 0, attempt = 0; made < count && attempt < MAX_LINE_ATTEMPTS; attempt++) {
+      const cells = createLine(type);
+      if (!cells) continue;
+      for (const { row, col } of cells) used[row][col] = true;
+      lines.push({ type, cells });
+      made++;
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,55 @@
+// 可复现的伪随机数：同一个种子在任何浏览器上都得到同样的序列
+// 只使用 32 位整数运算（Math.imul、位运算），不依赖平台的浮点实现细节
+
+export type RandomSource = () => number;
+
+// 把任意字符串种子散列为 32 位整数（cyrb53 的 32 位变体）
+export function hashSeed(seed: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+}
+
+// Mulberry32 生成器，返回 [0, 1) 之间的数
+export function createRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 生成一个新的随机种子（8 位小写字母和数字，便于分享）
+export function createSeed(): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  let seed = '';
+  for (let i = 0; i < 8; i++) {
+    seed += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return seed;
+}
+
+// 每日挑战的种子，同一天所有玩家相同
+export function getDailySeed(date: Date = new Date()): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `daily-${date.getFullYear()}-${month}-${day}`;
+}
+
+// Fisher–Yates 洗牌
+export function shuffleWith<T>(array: T[], random: RandomSource): void {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+}
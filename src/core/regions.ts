@@ -0,0 +1,124 @@
+import type { CellPosition, SudokuConfig, VariantConstraint } from '../types/game';
+import { SEARCH_STEPS_PER_CELL, solveExactly } from './dlx';
+import { shuffleWith, type RandomSource } from './random';
+
+// 随机交换格子的轮数（每轮尝试交换一对相邻区域的格子）
+const SWAP_ROUNDS_PER_CELL = 30;
+
+// 区域图无解时重新生成的最大次数
+const MAX_REGION_ATTEMPTS = 50;
+
+
+// 各规模的初始矩形宫 [行数, 列数]；没有矩形宫的规模（如 5、7）从按行划分开始
+const BASE_SHAPES: Record<number, [number, number]> = {
+  4: [2, 2],
+  6: [2, 3],
+  8: [2, 4],
+  9: [3, 3],
+  12: [3, 4],
+  16: [4, 4]
+};
+
+const NEIGHBOURS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// 区域中的所有格子
+const cellsOf = (regions: number[][], region: number): CellPosition[] => {
+  const cells: CellPosition[] = [];
+  regions.forEach((line, row) => line.forEach((id, col) => {
+    if (id === region) cells.push({ row, col });
+  }));
+  return cells;
+};
+
+// 同一区域的格子是否上下左右连通
+function isConnected(regions: number[][], region: number): boolean {
+  const cells = cellsOf(regions, region);
+  if (cells.length === 0) return true;
+  const seen = new Set<number>([cells[0].row * regions.length + cells[0].col]);
+  const queue = [cells[0]];
+  while (queue.length > 0) {
+    const { row, col } = queue.shift()!;
+    for (const [dr, dc] of NEIGHBOURS) {
+      const r = row + dr;
+      const c = col + dc;
+      const key = r * regions.length + c;
+      if (seen.has(key) || regions[r]?.[c] !== region) continue;
+      seen.add(key);
+      queue.push({ row: r, col: c });
+    }
+  }
+  return seen.size === cells.length;
+}
+
+// 检查区域图：大小与棋盘一致，每个区域恰好 n 个格子且上下左右连通
+export function isValidRegionMap(regions: unknown, size: number): regions is number[][] {
+  if (!Array.isArray(regions) || regions.length !== size) return false;
+  if (!regions.every(line => Array.isArray(line) && line.length === size && line.every(id => Number.isInteger(id) && id >= 0 && id < size))) {
+    return false;
+  }
+  const grid = regions as number[][];
+  for (let region = 0; region < size; region++) {
+    if (cellsOf(grid, region).length !== size || !isConnected(grid, region)) return false;
+  }
+  return true;
+}
+
+// 初始区域图：矩形宫或按行划分
+function baseRegions(size: number): number[][] {
+  const shape = BASE_SHAPES[size];
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) =>
+      shape ? Math.floor(row / shape[0]) * (size / shape[1]) + Math.floor(col / shape[1]) : row
+    )
+  );
+}
+
+// 是否有区域恰好是一整行或一整列（这样的区域图退化成了普通的行列约束）
+const hasStraightRegion = (regions: number[][]): boolean =>
+  regions.some(line => line.every(id => id === line[0])) ||
+  regions[0].some((id, col) => regions.every(line => line[col] === id));
+
+// 在限定步数内能否为区域图找到一个完整的解
+const isSolvable = (regions: number[][], random: RandomSource, constraints?: VariantConstraint[]): boolean => {
+  const size = regions.length;
+  const empty = Array.from({ length: size }, () => Array(size).fill(0));
+  const config: SudokuConfig = { size, subRows: 1, subCols: size, difficulty: 'medium', regions, constraints };
+  return solveExactly(empty, config, rows => shuffleWith(rows, random), size * size * SEARCH_STEPS_PER_CELL) !== null;
+};
+
+// 把 from 区域中的 cell 与 to 区域中的某个格子互换，保持两个区域大小不变且仍然连通
+function trySwap(regions: number[][], cell: CellPosition, to: number, random: RandomSource): boolean {
+  const from = regions[cell.row][cell.col];
+  // 候选：to 区域中与 from 区域相邻的格子
+  const partners = cellsOf(regions, to).filter(({ row, col }) =>
+    NEIGHBOURS.some(([dr, dc]) => regions[row + dr]?.[col + dc] === from && (row + dr !== cell.row || col + dc !== cell.col))
+  );
+  shuffleWith(partners, random);
+
+  for (const partner of partners) {
+    regions[cell.row][cell.col] = to;
+    regions[partner.row][partner.col] = from;
+    if (isConnected(regions, from) && isConnected(regions, to)) return true;
+    regions[cell.row][cell.col] = from;
+    regions[partner.row][partner.col] = to;
+  }
+  return false;
+}
+
+// 随机生成 size×size 的锯齿数独区域图：从规则划分出发，反复交换相邻区域边界上的格子；
+// 同时启用变体规则时，只接受在这些规则下仍然有解的区域图
+export function generateRegions(size: number, random: RandomSource, constraints?: VariantConstraint[]): number[][] {
+  for (let attempt = 0; attempt < MAX_REGION_ATTEMPTS; attempt++) {
+    const regions = baseRegions(size);
+    for (let round = 0; round < size * size * SWAP_ROUNDS_PER_CELL; round++) {
+      const row = Math.floor(random() * size);
+      const col = Math.floor(random() * size);
+      const [dr, dc] = NEIGHBOURS[Math.floor(random() * NEIGHBOURS.length)];
+      const neighbour = regions[row + dr]?.[col + dc];
+      if (neighbour === undefined || neighbour === regions[row][col]) continue;
+      trySwap(regions, { row, col }, neighbour, random);
+    }
+    if (!hasStraightRegion(regions) && isSolvable(regions, random, constraints)) return regions;
+  }
+  throw new Error(`无法生成 ${size}×${size} 的锯齿区域`);
+}
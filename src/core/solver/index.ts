@@ -0,0 +1,665 @@
+import type {
+  CandidateElimination,
+  CellPosition,
+  SolveResult,
+  SolveStep,
+  SolvingTechnique,
+  SudokuConfig,
+  UnitType
+} from '../../types/game';
+import { formatCellPosition, formatCellValue } from '../../utils/formatter';
+import { getUnits } from '../geometry';
+import { getRelations, type ConstraintRule } from '../constraints';
+import { getCageCombinations } from '../cages';
+import { getLineRelations } from '../lines';
+import { getBoardCols, getBoardRows, isBoardCell } from '../grids';
+import { formatBoardCell } from '../cube';
+
+// 技巧的中文名称
+export const TECHNIQUE_LABELS: Record<SolvingTechnique, string> = {
+  'naked-single': '唯一余数',
+  'hidden-single': '隐性唯一',
+  'cage-combination': '笼子组合',
+  'line-constraint': '线条推理',
+  'pointing': '宫区块排除',
+  'claiming': '行列区块排除',
+  'naked-pair': '显性数对',
+  'hidden-pair': '隐性数对',
+  'naked-triple': '显性三数组',
+  'hidden-triple': '隐性三数组',
+  'x-wing': 'X-Wing',
+  'xy-wing': 'XY-Wing',
+  'swordfish': '剑鱼'
+};
+
+// 技巧按难度排序，求解时总是优先尝试更简单的技巧
+export const TECHNIQUE_ORDER: SolvingTechnique[] = [
+  'naked-single',
+  'hidden-single',
+  'cage-combination',
+  'line-constraint',
+  'pointing',
+  'claiming',
+  'naked-pair',
+  'hidden-pair',
+  'naked-triple',
+  'hidden-triple',
+  'x-wing',
+  'xy-wing',
+  'swordfish'
+];
+
+interface Unit {
+  type: UnitType;
+  index: number;
+  cells: number[];
+}
+
+// 统计候选数位掩码中的数字个数
+const bitCount = (mask: number): number => {
+  let count = 0;
+  while (mask) {
+    mask &= mask - 1;
+    count++;
+  }
+  return count;
+};
+
+// 数字 v 对应的位
+const valueBit = (value: number): number => 1 << (value - 1);
+
+// 位掩码转数字列表
+const maskToValues = (mask: number): number[] => {
+  const values: number[] = [];
+  for (let value = 1; mask; value++, mask >>= 1) {
+    if (mask & 1) values.push(value);
+  }
+  return values;
+};
+
+// 从列表中取出所有 k 元组合
+function combinations<T>(items: T[], k: number): T[][] {
+  const result: T[][] = [];
+  const current: T[] = [];
+
+  const pick = (start: number) => {
+    if (current.length === k) {
+      result.push([...current]);
+      return;
+    }
+    for (let i = start; i <= items.length - (k - current.length); i++) {
+      current.push(items[i]);
+      pick(i + 1);
+      current.pop();
+    }
+  };
+
+  pick(0);
+  return result;
+}
+
+// 人类风格的逻辑求解器：只用有名字的技巧推进，并记录每一步
+export class LogicalSolver {
+  private config: SudokuConfig;
+  private size: number;
+  // 盘面的行数与列数（立方体数独为 6n 行，多宫格数独为覆盖各个数独的范围）
+  private rows: number;
+  private cols: number;
+  // 需要填数的格子（多宫格数独的空位不用填）
+  private active: boolean[] = [];
+  private units: Unit[] = [];
+  private cellUnits: number[][] = [];
+  private peers: Set<number>[] = [];
+  // 两两约束（无马、无缘、非连续）相关的格子
+  private relations: Array<Array<{ cell: number; rule: ConstraintRule }>> = [];
+  // 其中来自线条规则的部分
+  private lineRelations: Array<Array<{ cell: number; rule: ConstraintRule }>> = [];
+
+  // 当前求解状态：格子的值与候选数位掩码
+  private cells: number[] = [];
+  private candidates: number[] = [];
+
+  // 各技巧的查找函数，顺序与 TECHNIQUE_ORDER 对应
+  private readonly finders: Array<() => SolveStep | null> = [
+    () => this.findNakedSingle(),
+    () => this.findHiddenSingle(),
+    () => this.findCageCombination(),
+    () => this.findLineConstraint(),
+    () => this.findLockedCandidates('pointing'),
+    () => this.findLockedCandidates('claiming'),
+    () => this.findNakedSubset(2),
+    () => this.findHiddenSubset(2),
+    () => this.findNakedSubset(3),
+    () => this.findHiddenSubset(3),
+    () => this.findFish(2),
+    () => this.findXYWing(),
+    () => this.findFish(3)
+  ];
+
+  constructor(config: SudokuConfig) {
+    this.config = config;
+    this.size = config.size;
+    this.rows = getBoardRows(config);
+    this.cols = getBoardCols(config);
+    this.buildUnits();
+  }
+
+  // 构建行、列、子宫格（及变体）区域、每个格子的同区域格子和两两相关的格子
+  private buildUnits(): void {
+    const cols = this.cols;
+    this.units = getUnits(this.config).map(unit => ({
+      type: unit.type,
+      index: unit.index,
+      cells: unit.cells.map(({ row, col }) => row * cols + col)
+    }));
+
+    const cellCount = this.rows * cols;
+    this.active = Array.from({ length: cellCount }, (_, cell) =>
+      isBoardCell(this.config, Math.floor(cell / cols), cell % cols)
+    );
+    this.cellUnits = Array.from({ length: cellCount }, () => []);
+    this.peers = Array.from({ length: cellCount }, () => new Set<number>());
+    this.units.forEach((unit, unitId) => {
+      for (const cell of unit.cells) {
+        this.cellUnits[cell].push(unitId);
+        for (const peer of unit.cells) {
+          if (peer !== cell) this.peers[cell].add(peer);
+        }
+      }
+    });
+
+    this.relations = Array.from({ length: cellCount }, (_, cell) =>
+      getRelations(this.config, Math.floor(cell / cols), cell % cols).map(relation => ({
+        cell: relation.row * cols + relation.col,
+        rule: relation.rule
+      }))
+    );
+    this.lineRelations = Array.from({ length: cellCount }, (_, cell) =>
+      getLineRelations(this.config, Math.floor(cell / cols), cell % cols).map(relation => ({
+        cell: relation.row * cols + relation.col,
+        rule: relation.rule
+      }))
+    );
+  }
+
+  // 本格填 value 后，两两相关的格子不能填的数字的位掩码
+  private relationMask(rule: ConstraintRule, value: number): number {
+    return rule.forbidden!(value, this.size).reduce((mask, other) => mask | valueBit(other), 0);
+  }
+
+  // 两两相关的格子已填 other 时，本格不能填的数字的位掩码（规则可能有方向，不能直接用 relationMask）
+  private blockedMask(rule: ConstraintRule, other: number): number {
+    let mask = 0;
+    for (let value = 1; value <= this.size; value++) {
+      if (this.relationMask(rule, value) & valueBit(other)) mask |= valueBit(value);
+    }
+    return mask;
+  }
+
+  // 逐步求解，直到完成或现有技巧无法继续推进
+  solve(board: number[][]): SolveResult {
+    this.load(board);
+    const steps: SolveStep[] = [];
+
+    while (!this.isSolved() && !this.hasContradiction()) {
+      const step = this.findStep();
+      if (!step) break;
+      this.apply(step);
+      steps.push(step);
+    }
+
+    return {
+      solved: this.isSolved(),
+      board: this.toBoard(),
+      steps
+    };
+  }
+
+  // 只查找下一步（用于提示），不修改传入的棋盘；给出 notes 时，有笔记的格子只保留笔记中的候选数，
+  // 这样玩家已经在笔记中做过的删减不会再作为下一步给出
+  nextStep(board: number[][], notes?: number[][][]): SolveStep | null {
+    this.load(board, notes);
+    if (this.isSolved() || this.hasContradiction()) return null;
+    return this.findStep();
+  }
+
+  private load(board: number[][], notes?: number[][][]): void {
+    const fullMask = (1 << this.size) - 1;
+    this.cells = board.flat();
+    this.candidates = this.cells.map((value, cell) => {
+      if (value !== 0 || !this.active[cell]) return 0;
+      const cellNotes = notes?.[Math.floor(cell / this.cols)]?.[cell % this.cols] ?? [];
+      let mask = cellNotes.length > 0 ? cellNotes.reduce((acc, note) => acc | valueBit(note), 0) : fullMask;
+      for (const peer of this.peers[cell]) {
+        if (this.cells[peer] !== 0) mask &= ~valueBit(this.cells[peer]);
+      }
+      for (const relation of this.relations[cell]) {
+        const other = this.cells[relation.cell];
+        if (other !== 0) mask &= ~this.blockedMask(relation.rule, other);
+      }
+      return mask;
+    });
+  }
+
+  private toBoard(): number[][] {
+    const board: number[][] = [];
+    for (let row = 0; row < this.rows; row++) {
+      board.push(this.cells.slice(row * this.cols, (row + 1) * this.cols));
+    }
+    return board;
+  }
+
+  private isSolved(): boolean {
+    return this.cells.every((value, cell) => value !== 0 || !this.active[cell]);
+  }
+
+  // 存在没有候选数的空格，说明盘面已经矛盾
+  private hasContradiction(): boolean {
+    return this.cells.some((value, cell) => value === 0 && this.active[cell] && this.candidates[cell] === 0);
+  }
+
+  private findStep(): SolveStep | null {
+    for (const finder of this.finders) {
+      const step = finder();
+      if (step) return step;
+    }
+    return null;
+  }
+
+  private apply(step: SolveStep): void {
+    if (step.placement) {
+      const { row, col, value } = step.placement;
+      const cell = row * this.cols + col;
+      this.cells[cell] = value;
+      this.candidates[cell] = 0;
+      for (const peer of this.peers[cell]) {
+        this.candidates[peer] &= ~valueBit(value);
+      }
+      for (const relation of this.relations[cell]) {
+        this.candidates[relation.cell] &= ~this.relationMask(relation.rule, value);
+      }
+    }
+
+    for (const { row, col, value } of step.eliminations) {
+      this.candidates[row * this.cols + col] &= ~valueBit(value);
+    }
+  }
+
+  private position(cell: number): CellPosition {
+    return { row: Math.floor(cell / this.cols), col: cell % this.cols };
+  }
+
+  private unitRef(unit: Unit): SolveStep['unit'] {
+    return { type: unit.type, index: unit.index };
+  }
+
+  // 区域内可以填 value 的格子
+  private positionsOf(unit: Unit, value: number): number[] {
+    const bit = valueBit(value);
+    return unit.cells.filter(cell => this.candidates[cell] & bit);
+  }
+
+  // 区域是否正好 n 格（每个数字都要出现一次）；立方体数独跨棱的区域可能不足 n 格，只能用来排除，不能推出数字的位置
+  private isComplete(unit: Unit): boolean {
+    return unit.cells.length === this.size;
+  }
+
+  private unitHasValue(unit: Unit, value: number): boolean {
+    return unit.cells.some(cell => this.cells[cell] === value);
+  }
+
+  // 唯一余数：格子只剩一个候选数
+  private findNakedSingle(): SolveStep | null {
+    for (let cell = 0; cell < this.cells.length; cell++) {
+      if (this.cells[cell] !== 0 || bitCount(this.candidates[cell]) !== 1) continue;
+      const [value] = maskToValues(this.candidates[cell]);
+      return {
+        technique: 'naked-single',
+        cells: [this.position(cell)],
+        values: [value],
+        placement: { ...this.position(cell), value },
+        eliminations: []
+      };
+    }
+    return null;
+  }
+
+  // 隐性唯一：某数字在区域内只剩一个位置
+  private findHiddenSingle(): SolveStep | null {
+    for (const unit of this.units) {
+      if (!this.isComplete(unit)) continue;
+      for (let value = 1; value <= this.size; value++) {
+        if (this.unitHasValue(unit, value)) continue;
+        const positions = this.positionsOf(unit, value);
+        if (positions.length !== 1) continue;
+        return {
+          technique: 'hidden-single',
+          cells: [this.position(positions[0])],
+          values: [value],
+          unit: this.unitRef(unit),
+          placement: { ...this.position(positions[0]), value },
+          eliminations: []
+        };
+      }
+    }
+    return null;
+  }
+
+  // 笼子组合：笼子剩余的和只能由某些数字组合凑出，且组合要能分配到各空格的候选数中，
+  // 不出现在任何可行分配中的候选数可以删去
+  private findCageCombination(): SolveStep | null {
+    for (const cage of this.config.cages ?? []) {
+      const cells = cage.cells.map(({ row, col }) => row * this.cols + col);
+      const empty = cells.filter(cell => this.cells[cell] === 0);
+      if (empty.length === 0) continue;
+
+      let remaining = cage.sum;
+      let used = 0;
+      for (const cell of cells) {
+        if (this.cells[cell] === 0) continue;
+        remaining -= this.cells[cell];
+        used |= valueBit(this.cells[cell]);
+      }
+
+      // 各空格在可行分配中出现过的数字
+      const allowed = empty.map(() => 0);
+      const assigned: number[] = [];
+      const assign = (index: number, combo: number) => {
+        if (index === empty.length) {
+          assigned.forEach((value, i) => { allowed[i] |= valueBit(value); });
+          return;
+        }
+        for (const value of maskToValues(combo & this.candidates[empty[index]])) {
+          assigned.push(value);
+          assign(index + 1, combo & ~valueBit(value));
+          assigned.pop();
+        }
+      };
+      const available = ((1 << this.size) - 1) & ~used;
+      for (const combo of getCageCombinations(remaining, empty.length, available)) {
+        assign(0, combo);
+      }
+
+      const eliminations = empty.flatMap((cell, i) =>
+        maskToValues(this.candidates[cell] & ~allowed[i]).map(value => ({ ...this.position(cell), value }))
+      );
+      if (eliminations.length === 0) continue;
+      return {
+        technique: 'cage-combination',
+        cells: empty.map(cell => this.position(cell)),
+        values: maskToValues(allowed.reduce((mask, bits) => mask | bits, 0)),
+        eliminations
+      };
+    }
+    return null;
+  }
+
+  // 线条推理：线上两格互相约束，某个候选数与对方的所有可能都冲突时删去；
+  // 箭头还要满足圆圈等于箭头之和，超出上下界的候选数删去
+  private findLineConstraint(): SolveStep | null {
+    // 格子可能的数字：已填的格子只有自己的值
+    const options = (cell: number) => (this.cells[cell] !== 0 ? valueBit(this.cells[cell]) : this.candidates[cell]);
+    const lowest = (mask: number) => maskToValues(mask)[0] ?? 0;
+    const highest = (mask: number) => maskToValues(mask).pop() ?? 0;
+
+    for (const line of this.config.lines ?? []) {
+      const cells = line.cells.map(({ row, col }) => row * this.cols + col);
+      const removed = cells.map(() => 0);
+
+      cells.forEach((cell, i) => {
+        if (this.cells[cell] !== 0) return;
+        for (const value of maskToValues(this.candidates[cell])) {
+          const blocked = this.lineRelations[cell].some(relation =>
+            (options(relation.cell) & ~this.relationMask(relation.rule, value)) === 0
+          );
+          if (blocked) removed[i] |= valueBit(value);
+        }
+      });
+
+      if (line.type === 'arrow') {
+        const [circle, ...arrow] = cells;
+        const minSum = arrow.reduce((total, cell) => total + lowest(options(cell)), 0);
+        const maxSum = arrow.reduce((total, cell) => total + highest(options(cell)), 0);
+        const bounds = [[minSum, maxSum]];
+        for (const cell of arrow) {
+          bounds.push([
+            lowest(options(circle)) - (maxSum - highest(options(cell))),
+            highest(options(circle)) - (minSum - lowest(options(cell)))
+          ]);
+        }
+        cells.forEach((cell, i) => {
+          if (this.cells[cell] !== 0) return;
+          const [min, max] = bounds[i];
+          for (const value of maskToValues(this.candidates[cell])) {
+            if (value < min || value > max) removed[i] |= valueBit(value);
+          }
+        });
+      }
+
+      const eliminations = cells.flatMap((cell, i) =>
+        maskToValues(removed[i]).map(value => ({ ...this.position(cell), value }))
+      );
+      if (eliminations.length === 0) continue;
+      return {
+        technique: 'line-constraint',
+        cells: line.cells.map(({ row, col }) => ({ row, col })),
+        values: maskToValues(removed.reduce((mask, bits) => mask | bits, 0)),
+        eliminations
+      };
+    }
+    return null;
+  }
+
+  // 区块排除：数字在一个区域内的位置全部落在另一个区域中，
+  // 则另一个区域的其余格子不能再填该数字
+  private findLockedCandidates(technique: 'pointing' | 'claiming'): SolveStep | null {
+    const bases = this.units.filter(unit => this.isComplete(unit) && (technique === 'pointing') === (unit.type === 'box'));
+
+    for (const base of bases) {
+      for (let value = 1; value <= this.size; value++) {
+        const positions = this.positionsOf(base, value);
+        if (positions.length < 2) continue;
+
+        const coverIds = this.cellUnits[positions[0]].filter(unitId =>
+          this.units[unitId] !== base &&
+          positions.every(cell => this.cellUnits[cell].includes(unitId))
+        );
+
+        for (const coverId of coverIds) {
+          const eliminations = this.eliminationsOf(
+            this.units[coverId].cells.filter(cell => !positions.includes(cell)),
+            valueBit(value)
+          );
+          if (eliminations.length === 0) continue;
+          return {
+            technique,
+            cells: positions.map(cell => this.position(cell)),
+            values: [value],
+            unit: this.unitRef(base),
+            eliminations
+          };
+        }
+      }
+    }
+    return null;
+  }
+
+  // 显性数组：k 个格子的候选数合起来恰好 k 个
+  private findNakedSubset(k: 2 | 3): SolveStep | null {
+    const technique: SolvingTechnique = k === 2 ? 'naked-pair' : 'naked-triple';
+
+    for (const unit of this.units) {
+      const emptyCells = unit.cells.filter(cell => this.cells[cell] === 0);
+      const subsetCells = emptyCells.filter(cell => {
+        const count = bitCount(this.candidates[cell]);
+        return count >= 2 && count <= k;
+      });
+
+      for (const combo of combinations(subsetCells, k)) {
+        const mask = combo.reduce((acc, cell) => acc | this.candidates[cell], 0);
+        if (bitCount(mask) !== k) continue;
+
+        const eliminations = this.eliminationsOf(
+          emptyCells.filter(cell => !combo.includes(cell)),
+          mask
+        );
+        if (eliminations.length === 0) continue;
+        return {
+          technique,
+          cells: combo.map(cell => this.position(cell)),
+          values: maskToValues(mask),
+          unit: this.unitRef(unit),
+          eliminations
+        };
+      }
+    }
+    return null;
+  }
+
+  // 隐性数组：k 个数字在区域内的位置合起来恰好 k 个格子
+  private findHiddenSubset(k: 2 | 3): SolveStep | null {
+    const technique: SolvingTechnique = k === 2 ? 'hidden-pair' : 'hidden-triple';
+
+    for (const unit of this.units) {
+      if (!this.isComplete(unit)) continue;
+      const digitPositions = new Map<number, number[]>();
+      for (let value = 1; value <= this.size; value++) {
+        if (this.unitHasValue(unit, value)) continue;
+        const positions = this.positionsOf(unit, value);
+        if (positions.length >= 2 && positions.length <= k) {
+          digitPositions.set(value, positions);
+        }
+      }
+
+      for (const combo of combinations([...digitPositions.keys()], k)) {
+        const cells = [...new Set(combo.flatMap(value => digitPositions.get(value)!))];
+        if (cells.length !== k) continue;
+
+        const keepMask = combo.reduce((acc, value) => acc | valueBit(value), 0);
+        const eliminations: CandidateElimination[] = [];
+        for (const cell of cells) {
+          for (const value of maskToValues(this.candidates[cell] & ~keepMask)) {
+            eliminations.push({ ...this.position(cell), value });
+          }
+        }
+        if (eliminations.length === 0) continue;
+        return {
+          technique,
+          cells: cells.map(cell => this.position(cell)),
+          values: combo,
+          unit: this.unitRef(unit),
+          eliminations
+        };
+      }
+    }
+    return null;
+  }
+
+  // 鱼形结构：n 行（列）中某数字的位置恰好落在 n 列（行）中
+  private findFish(n: 2 | 3): SolveStep | null {
+    const technique: SolvingTechnique = n === 2 ? 'x-wing' : 'swordfish';
+
+    for (let value = 1; value <= this.size; value++) {
+      for (const [baseType, coverType] of [['row', 'column'], ['column', 'row']] as const) {
+        const candidatesBases = this.units
+          .filter(unit => unit.type === baseType && !this.unitHasValue(unit, value))
+          .map(unit => ({ unit, positions: this.positionsOf(unit, value) }))
+          .filter(({ positions }) => positions.length >= 2 && positions.length <= n);
+
+        for (const combo of combinations(candidatesBases, n)) {
+          const baseCells = combo.flatMap(({ positions }) => positions);
+          // 多宫格数独中不同数独的行可能部分重叠，基础区域必须互不相交
+          const baseUnitCells = new Set(combo.flatMap(({ unit }) => unit.cells));
+          if (baseUnitCells.size !== combo.reduce((total, { unit }) => total + unit.cells.length, 0)) continue;
+          const coverIds = new Set(baseCells.map(cell => this.unitOfType(cell, coverType)));
+          if (coverIds.size !== n) continue;
+
+          const eliminations = this.eliminationsOf(
+            [...coverIds].flatMap(unitId => this.units[unitId].cells).filter(cell => !baseUnitCells.has(cell)),
+            valueBit(value)
+          );
+          if (eliminations.length === 0) continue;
+          return {
+            technique,
+            cells: baseCells.map(cell => this.position(cell)),
+            values: [value],
+            eliminations
+          };
+        }
+      }
+    }
+    return null;
+  }
+
+  // XY-Wing：枢纽 {x,y}，两翼 {x,z} 与 {y,z}，同时看到两翼的格子不能是 z
+  private findXYWing(): SolveStep | null {
+    const bivalue = (cell: number) => this.cells[cell] === 0 && bitCount(this.candidates[cell]) === 2;
+
+    for (let pivot = 0; pivot < this.cells.length; pivot++) {
+      if (!bivalue(pivot)) continue;
+      const pivotMask = this.candidates[pivot];
+      const wings = [...this.peers[pivot]].filter(cell =>
+        bivalue(cell) && bitCount(this.candidates[cell] & pivotMask) === 1
+      );
+
+      for (const [first, second] of combinations(wings, 2)) {
+        const firstShared = this.candidates[first] & pivotMask;
+        const secondShared = this.candidates[second] & pivotMask;
+        const zMask = this.candidates[first] & ~pivotMask;
+        if (firstShared === secondShared || zMask !== (this.candidates[second] & ~pivotMask)) continue;
+
+        const targets = [...this.peers[first]].filter(cell =>
+          cell !== pivot && cell !== second && this.peers[second].has(cell)
+        );
+        const eliminations = this.eliminationsOf(targets, zMask);
+        if (eliminations.length === 0) continue;
+        return {
+          technique: 'xy-wing',
+          cells: [pivot, first, second].map(cell => this.position(cell)),
+          values: maskToValues(pivotMask | zMask),
+          eliminations
+        };
+      }
+    }
+    return null;
+  }
+
+  private unitOfType(cell: number, type: UnitType): number {
+    return this.cellUnits[cell].find(unitId => this.units[unitId].type === type)!;
+  }
+
+  // 在给定格子中删去 mask 中的候选数
+  private eliminationsOf(cells: number[], mask: number): CandidateElimination[] {
+    const eliminations: CandidateElimination[] = [];
+    for (const cell of cells) {
+      if (this.cells[cell] !== 0) continue;
+      for (const value of maskToValues(this.candidates[cell] & mask)) {
+        eliminations.push({ ...this.position(cell), value });
+      }
+    }
+    return eliminations;
+  }
+}
+
+// 描述一步求解的原因（用于提示和教程）；给出配置时按盘面类型描述格子（如立方体数独带上面的名称）
+export function describeStep(step: SolveStep, config?: SudokuConfig): string {
+  const label = TECHNIQUE_LABELS[step.technique];
+  const format = ({ row, col }: CellPosition) =>
+    config ? formatBoardCell(config, row, col) : formatCellPosition(row, col);
+  const cells = step.cells.map(format).join('、');
+  const values = step.values.map(formatCellValue).join('、');
+
+  if (step.placement) {
+    return `${label}：${format(step.placement)} 只能填 ${formatCellValue(step.placement.value)}`;
+  }
+
+  const eliminations = step.eliminations
+    .map(elimination => `${format(elimination)}≠${formatCellValue(elimination.value)}`)
+    .join('、');
+  return `${label}：${cells} 上的 ${values} 可以删去 ${eliminations}`;
+}
+
+// 导出求解函数
+export function solveLogically(board: number[][], config: SudokuConfig): SolveResult {
+  return new LogicalSolver(config).solve(board);
+}
@@ -0,0 +1,68 @@
+// 存储后端：目前只有 localStorage，抽象出来便于替换为 IndexedDB 等
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+// 浏览器 localStorage 通常限制为 5MB 左右（按 UTF-16 计算）
+export const STORAGE_QUOTA_ESTIMATE = 5 * 1024 * 1024;
+
+// 存储空间不足
+export class StorageQuotaError extends Error {
+  constructor(message = '存储空间不足') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// 判断是否为各浏览器的配额超限错误
+export function isQuotaExceeded(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError'
+    || error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    || error.code === 22
+    || error.code === 1014;
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  getItem(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  // 写入失败且原因是空间不足时抛出 StorageQuotaError
+  setItem(key: string, value: string): void {
+    try {
+      localStorage.setItem(key, value);
+    } catch (error) {
+      if (isQuotaExceeded(error)) {
+        throw new StorageQuotaError();
+      }
+      throw error;
+    }
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+// 估算指定前缀的键占用的字节数（字符串按 UTF-16 每字符 2 字节）
+export function estimateUsage(backend: StorageBackend, prefix = ''): number {
+  let bytes = 0;
+  for (const key of backend.keys()) {
+    if (!key.startsWith(prefix)) continue;
+    bytes += (key.length + (backend.getItem(key)?.length ?? 0)) * 2;
+  }
+  return bytes;
+}
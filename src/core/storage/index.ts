@@ -0,0 +1,44 @@
+import type { GameSnapshot } from '../../types/game';
+import { LocalStorageBackend } from './backend';
+import { migrateSnapshot } from './snapshot';
+
+export { createSnapshot, migrateSnapshot, SNAPSHOT_VERSION } from './snapshot';
+export { LocalStorageBackend, StorageQuotaError, STORAGE_QUOTA_ESTIMATE, type StorageBackend } from './backend';
+export { createThumbnail, SaveSlotManager } from './slots';
+
+// 自动存档在存储中的键
+const AUTOSAVE_KEY = 'sudoku-autosave';
+
+const backend = new LocalStorageBackend();
+
+// 写入自动存档；存储不可用或空间不足时只打印警告，不影响游戏
+export function saveAutosave(snapshot: GameSnapshot): void {
+  try {
+    backend.setItem(AUTOSAVE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn('自动保存失败:', error);
+  }
+}
+
+// 读取自动存档，并升级到当前版本；没有可用存档时返回 null，损坏的存档直接丢弃
+export function loadAutosave(): GameSnapshot | null {
+  try {
+    const raw = backend.getItem(AUTOSAVE_KEY);
+    if (!raw) return null;
+    const snapshot = migrateSnapshot(JSON.parse(raw));
+    if (!snapshot) clearAutosave();
+    return snapshot;
+  } catch (error) {
+    console.warn('读取自动存档失败:', error);
+    clearAutosave();
+    return null;
+  }
+}
+
+export function clearAutosave(): void {
+  try {
+    backend.removeItem(AUTOSAVE_KEY);
+  } catch (error) {
+    console.warn('清除自动存档失败:', error);
+  }
+}
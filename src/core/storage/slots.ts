@@ -0,0 +1,133 @@
+import type { GameSnapshot, SaveSlot } from '../../types/game';
+import { estimateUsage, LocalStorageBackend, StorageQuotaError, type StorageBackend } from './backend';
+import { migrateSnapshot } from './snapshot';
+
+// 存档列表与各存档内容在存储中的键
+const INDEX_KEY = 'sudoku-saves';
+const SLOT_PREFIX = 'sudoku-save:';
+
+// 棋盘缩略图：逐格用一个 base36 字符记录数字，0 表示空格
+export function createThumbnail(board: number[][]): string {
+  return board.flat().map(value => value.toString(36)).join('');
+}
+
+// 去掉撤销历史的存档，空间不足时使用
+const withoutHistory = (snapshot: GameSnapshot): GameSnapshot => ({
+  ...snapshot,
+  history: [],
+  historyCursor: -1,
+  historyRedo: {}
+});
+
+// 多槽位手动存档：新建、覆盖、重命名、读取、删除
+export class SaveSlotManager {
+  private backend: StorageBackend;
+
+  constructor(backend: StorageBackend = new LocalStorageBackend()) {
+    this.backend = backend;
+  }
+
+  // 所有存档，最近保存的在前
+  list(): SaveSlot[] {
+    return this.readIndex().sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  create(name: string, snapshot: GameSnapshot): SaveSlot {
+    const now = Date.now();
+    const id = `${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    return this.write(id, name, now, snapshot);
+  }
+
+  // 用当前游戏覆盖已有存档，保留名称和创建时间
+  overwrite(id: string, snapshot: GameSnapshot): SaveSlot | null {
+    const slot = this.readIndex().find(item => item.id === id);
+    if (!slot) return null;
+    return this.write(id, slot.name, slot.createdAt, snapshot);
+  }
+
+  rename(id: string, name: string): SaveSlot | null {
+    const slots = this.readIndex();
+    const slot = slots.find(item => item.id === id);
+    if (!slot) return null;
+    slot.name = name;
+    this.writeIndex(slots);
+    return slot;
+  }
+
+  // 读取存档内容，并升级到当前存档版本
+  load(id: string): GameSnapshot | null {
+    const raw = this.backend.getItem(SLOT_PREFIX + id);
+    if (!raw) return null;
+    try {
+      return migrateSnapshot(JSON.parse(raw));
+    } catch {
+      return null;
+    }
+  }
+
+  remove(id: string): void {
+    this.backend.removeItem(SLOT_PREFIX + id);
+    this.writeIndex(this.readIndex().filter(slot => slot.id !== id));
+  }
+
+  // 所有存档占用的字节数（估算）
+  usage(): number {
+    return estimateUsage(this.backend, SLOT_PREFIX) + estimateUsage(this.backend, INDEX_KEY);
+  }
+
+  // 写入存档内容和摘要；空间不足时先去掉撤销历史再试，仍然不够则抛出 StorageQuotaError
+  private write(id: string, name: string, createdAt: number, snapshot: GameSnapshot): SaveSlot {
+    const key = SLOT_PREFIX + id;
+    const previous = this.backend.getItem(key);
+    let compacted = false;
+
+    try {
+      this.backend.setItem(key, JSON.stringify(snapshot));
+    } catch (error) {
+      if (!(error instanceof StorageQuotaError)) throw error;
+      this.backend.setItem(key, JSON.stringify(withoutHistory(snapshot)));
+      compacted = true;
+    }
+
+    const slot: SaveSlot = {
+      id,
+      name,
+      size: snapshot.config.size,
+      subRows: snapshot.config.subRows,
+      subCols: snapshot.config.subCols,
+      difficulty: snapshot.config.difficulty,
+      timer: snapshot.timer,
+      thumbnail: createThumbnail(snapshot.board),
+      cols: snapshot.board[0]?.length ?? snapshot.config.size,
+      createdAt,
+      updatedAt: Date.now(),
+      compacted
+    };
+
+    try {
+      this.writeIndex([...this.readIndex().filter(item => item.id !== id), slot]);
+    } catch (error) {
+      // 摘要写入失败时恢复原来的存档内容，避免留下列表里看不到的数据
+      if (previous !== null) {
+        this.backend.setItem(key, previous);
+      } else {
+        this.backend.removeItem(key);
+      }
+      throw error;
+    }
+    return slot;
+  }
+
+  private readIndex(): SaveSlot[] {
+    try {
+      const slots = JSON.parse(this.backend.getItem(INDEX_KEY) ?? '[]');
+      return Array.isArray(slots) ? slots : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeIndex(slots: SaveSlot[]): void {
+    this.backend.setItem(INDEX_KEY, JSON.stringify(slots));
+  }
+}
@@ -0,0 +1,134 @@
+import type { GameSnapshot, HistoryEntry, PersistedGameState } from '../../types/game';
+import { isValidConstraintList } from '../constraints';
+import { isValidRegionMap } from '../regions';
+import { isValidCageList } from '../cages';
+import { isValidLineList } from '../lines';
+import { getBoardCols, getBoardRows, isBoardCell, isValidLayout } from '../grids';
+import { createHintUsage, isValidHintUsage } from '../hints';
+
+// 当前存档格式的版本号；修改 GameState 的持久化字段时加一，并在 MIGRATIONS 中补充升级函数
+export const SNAPSHOT_VERSION = 2;
+
+type RawSnapshot = Record<string, unknown>;
+
+// 旧版本存档的升级函数：键为旧版本号，返回升级到下一个版本后的存档
+const MIGRATIONS: Record<number, (save: RawSnapshot) => RawSnapshot> = {
+  // 版本 2 开始记录提示的使用次数
+  1: save => ({ ...save, hintsUsed: createHintUsage() })
+};
+
+// 根据游戏状态创建存档
+export function createSnapshot(state: PersistedGameState): GameSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    config: state.config,
+    seed: state.seed,
+    board: state.board,
+    solution: state.solution,
+    preset: state.preset,
+    notes: state.notes,
+    grade: state.grade,
+    timer: state.timer,
+    history: state.history,
+    historyCursor: state.historyCursor,
+    historyRedo: state.historyRedo,
+    hintsUsed: state.hintsUsed
+  };
+}
+
+const isGrid = (value: unknown, rows: number, cols: number): value is unknown[][] =>
+  Array.isArray(value) && value.length === rows && value.every(row => Array.isArray(row) && row.length === cols);
+
+const isIndex = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) < max;
+
+const isNoteList = (value: unknown, size: number): boolean =>
+  value === undefined || (Array.isArray(value) && value.every(note => isIndex(note, 1, size + 1)));
+
+// 检查一步操作中的格子变化：坐标在棋盘内，数字和笔记不超出范围
+function isValidChange(change: unknown, config: GameSnapshot['config']): boolean {
+  if (!change || typeof change !== 'object') return false;
+  const { row, col, from, to, notesFrom, notesTo } = change as Record<string, unknown>;
+  return isIndex(row, 0, getBoardRows(config))
+    && isIndex(col, 0, getBoardCols(config))
+    && isBoardCell(config, row, col)
+    && isIndex(from, 0, config.size + 1)
+    && isIndex(to, 0, config.size + 1)
+    && isNoteList(notesFrom, config.size)
+    && isNoteList(notesTo, config.size);
+}
+
+// 检查历史树：节点 id 即下标，父节点是更早的节点或初始盘面（-1），当前位置和重做记录都指向存在的节点
+function isValidHistory(save: RawSnapshot, config: GameSnapshot['config']): boolean {
+  const history = save.history;
+  if (!Array.isArray(history)) return false;
+
+  const valid = history.every((entry, index) => {
+    if (!entry || typeof entry !== 'object') return false;
+    const { id, parent, changes } = entry as Record<string, unknown>;
+    return id === index
+      && isIndex(parent, -1, index)
+      && Array.isArray(changes)
+      && changes.every(change => isValidChange(change, config));
+  });
+  if (!valid || !isIndex(save.historyCursor, -1, history.length)) return false;
+
+  const redo = save.historyRedo;
+  if (!redo || typeof redo !== 'object' || Array.isArray(redo)) return false;
+  return Object.entries(redo).every(([key, child]) =>
+    isIndex(child, 0, history.length) && (history[child] as HistoryEntry).parent === Number(key)
+  );
+}
+
+// 检查存档的结构是否完整，避免损坏的存档导致游戏崩溃
+function isValidSnapshot(save: RawSnapshot): boolean {
+  const config = save.config as GameSnapshot['config'] | undefined;
+  if (!config || typeof config.size !== 'number' || typeof config.subRows !== 'number' || typeof config.subCols !== 'number') {
+    return false;
+  }
+  if (config.regions !== undefined && !isValidRegionMap(config.regions, config.size)) {
+    return false;
+  }
+  if (config.constraints !== undefined && !isValidConstraintList(config.constraints)) {
+    return false;
+  }
+  if (config.cages !== undefined && !isValidCageList(config.cages, config.size)) {
+    return false;
+  }
+  if (config.lines !== undefined && !isValidLineList(config.lines, config.size)) {
+    return false;
+  }
+  if (config.cube !== undefined && typeof config.cube !== 'boolean') {
+    return false;
+  }
+  if (config.layout !== undefined && !isValidLayout(config.layout)) {
+    return false;
+  }
+
+  const rows = getBoardRows(config);
+  const cols = getBoardCols(config);
+  return isGrid(save.board, rows, cols)
+    && isGrid(save.solution, rows, cols)
+    && isGrid(save.preset, rows, cols)
+    && isGrid(save.notes, rows, cols)
+    && typeof save.timer === 'number'
+    && isValidHistory(save, config)
+    && isValidHintUsage(save.hintsUsed);
+}
+
+// 把任意版本的存档升级到当前版本；无法识别或来自更新版本的存档返回 null
+export function migrateSnapshot(data: unknown): GameSnapshot | null {
+  if (!data || typeof data !== 'object') return null;
+
+  let save = data as RawSnapshot;
+  if (typeof save.version !== 'number' || save.version > SNAPSHOT_VERSION) return null;
+
+  while ((save.version as number) < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[save.version as number];
+    if (!migrate) return null;
+    save = { ...migrate(save), version: (save.version as number) + 1 };
+  }
+
+  return isValidSnapshot(save) ? save as unknown as GameSnapshot : null;
+}
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import type { BoardStyle } from './index';
+import type { BoardStyle, CameraPreset } from './index';
 
 // 水晶样式 - 透明发光效果
 const CrystalStyle: BoardStyle = {
@@ -86,6 +86,13 @@ const CrystalStyle: BoardStyle = {
     return new THREE.Vector3(0, 18, 0); // 更高的视角
   },
 
+  getCameraPresets(): CameraPreset[] {
+    return [
+      { name: 'top', label: '俯视', position: new THREE.Vector3(0, 18, 0) },
+      { name: 'tilted', label: '斜视', position: new THREE.Vector3(0, 12, 13) }
+    ];
+  },
+
   getLights(darkMode: boolean): THREE.Light[] {
     const lights: THREE.Light[] = [];
     
@@ -125,6 +132,18 @@ const CrystalStyle: BoardStyle = {
 
   getSceneBackground(darkMode: boolean): THREE.Color {
     return new THREE.Color(darkMode ? 0x000044 : 0xf0f0ff);
+  },
+
+  createCageMaterial(darkMode: boolean): THREE.Material {
+    // 发光的半透明边框
+    return new THREE.MeshPhysicalMaterial({
+      color: darkMode ? 0xffaa44 : 0xff8800,
+      transparent: true,
+      opacity: 0.85,
+      roughness: 0.1,
+      emissive: new THREE.Color(darkMode ? 0x663300 : 0x331a00),
+      emissiveIntensity: 0.6
+    });
   }
 };
 
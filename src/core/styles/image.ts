@@ -1,5 +1,6 @@
 import * as THREE from 'three';
-import type { BoardStyle } from './index';
+import { disposeStyleTextures, getStyleTexture } from './textures';
+import type { BoardStyle, CameraPreset } from './index';
 
 // 图片样式 - 使用纹理贴图
 const ImageStyle: BoardStyle = {
@@ -51,19 +52,25 @@ const ImageStyle: BoardStyle = {
       return new THREE.CanvasTexture(canvas);
     };
     
-    // 普通状态纹理
-    const stoneTexture = createCanvasTexture(darkMode ? '#666666' : '#cccccc', 'solid');
-    stoneTexture.wrapS = THREE.RepeatWrapping;
-    stoneTexture.wrapT = THREE.RepeatWrapping;
+    // 普通状态纹理（纹理按状态和主题缓存，重复切换时不再重新绘制）
+    const stoneTexture = getStyleTexture('image', 'stone', darkMode, () => {
+      const texture = createCanvasTexture(darkMode ? '#666666' : '#cccccc', 'solid');
+      texture.wrapS = THREE.RepeatWrapping;
+      texture.wrapT = THREE.RepeatWrapping;
+      return texture;
+    });
     
     // 选中状态纹理
-    const selectedTexture = createCanvasTexture(darkMode ? '#ff00ff' : '#6a5acd', 'gradient');
+    const selectedTexture = getStyleTexture('image', 'selected', darkMode, () =>
+      createCanvasTexture(darkMode ? '#ff00ff' : '#6a5acd', 'gradient'));
     
     // 预设状态纹理
-    const presetTexture = createCanvasTexture(darkMode ? '#888888' : '#dddddd', 'border');
+    const presetTexture = getStyleTexture('image', 'preset', darkMode, () =>
+      createCanvasTexture(darkMode ? '#888888' : '#dddddd', 'border'));
     
     // 冲突状态纹理
-    const conflictTexture = createCanvasTexture('#ff4444', 'gradient');
+    const conflictTexture = getStyleTexture('image', 'conflict', darkMode, () =>
+      createCanvasTexture('#ff4444', 'gradient'));
     
     return {
       stone: new THREE.MeshLambertMaterial({
@@ -115,6 +122,13 @@ const ImageStyle: BoardStyle = {
     return new THREE.Vector3(0, 12, 0); // 稍微低一点的视角
   },
 
+  getCameraPresets(): CameraPreset[] {
+    return [
+      { name: 'top', label: '俯视', position: new THREE.Vector3(0, 12, 0) },
+      { name: 'tilted', label: '斜视', position: new THREE.Vector3(0, 9, 8) }
+    ];
+  },
+
   getLights(darkMode: boolean): THREE.Light[] {
     const lights: THREE.Light[] = [];
     
@@ -146,6 +160,10 @@ const ImageStyle: BoardStyle = {
 
   getSceneBackground(darkMode: boolean): THREE.Color {
     return new THREE.Color(darkMode ? 0x001122 : 0xf8f8f8);
+  },
+
+  dispose() {
+    disposeStyleTextures('image');
   }
 };
 
@@ -1,6 +1,14 @@
 // 3D棋盘样式系统
 import * as THREE from 'three';
 
+// 相机预设：相机位置和注视点（缺省为棋盘中心）
+export interface CameraPreset {
+  name: string;
+  label: string;
+  position: THREE.Vector3;
+  target?: THREE.Vector3;
+}
+
 // 样式接口定义
 export interface BoardStyle {
   name: string;
@@ -16,10 +24,17 @@ export interface BoardStyle {
   getTextPosition: (cellPosition: THREE.Vector3) => THREE.Vector3;
   getTextRotation: () => THREE.Euler;
   getCameraPosition: () => THREE.Vector3;
+  // 可选的相机预设，第一个为默认视角（重置视角时回到这里）；缺省时只有 getCameraPosition 一个视角
+  getCameraPresets?: () => CameraPreset[];
   getLights: (darkMode: boolean) => THREE.Light[];
   getSceneBackground: (darkMode: boolean) => THREE.Color;
   // 可选的数字材质创建方法
   createNumberMaterial?: (number: string, darkMode: boolean) => THREE.Material;
+  // 可选的杀手数独笼子边框材质，缺省时使用纯色
+  createCageMaterial?: (darkMode: boolean) => THREE.Material;
+  // 可选的资源释放方法：释放样式缓存的纹理等共用资源，切换到其他样式或卸载棋盘时调用；
+  // createMaterials 等方法返回的材质、光源由调用方释放
+  dispose?: () => void;
 }
 
 // 导入所有样式
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import type { BoardStyle } from './index';
+import type { BoardStyle, CameraPreset } from './index';
 
 // 金属样式 - 金属质感
 const MetalStyle: BoardStyle = {
@@ -66,6 +66,14 @@ const MetalStyle: BoardStyle = {
     return new THREE.Vector3(0, 16, 0);
   },
 
+  getCameraPresets(): CameraPreset[] {
+    return [
+      { name: 'top', label: '俯视', position: new THREE.Vector3(0, 16, 0) },
+      { name: 'tilted', label: '斜视', position: new THREE.Vector3(0, 11, 11) },
+      { name: 'side', label: '侧视', position: new THREE.Vector3(11, 9, 9) }
+    ];
+  },
+
   getLights(darkMode: boolean): THREE.Light[] {
     const lights: THREE.Light[] = [];
     
@@ -106,6 +114,15 @@ const MetalStyle: BoardStyle = {
 
   getSceneBackground(darkMode: boolean): THREE.Color {
     return new THREE.Color(darkMode ? 0x001122 : 0xf5f5f5);
+  },
+
+  createCageMaterial(darkMode: boolean): THREE.Material {
+    // 黄铜色的凸起边框
+    return new THREE.MeshStandardMaterial({
+      color: darkMode ? 0xd4a017 : 0xb8860b,
+      metalness: 0.9,
+      roughness: 0.25
+    });
   }
 };
 
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
-import type { BoardStyle } from './index';
+import { disposeStyleTextures, getStyleTexture } from './textures';
+import type { BoardStyle, CameraPreset } from './index';
 
 // 创建手写风格数字纹理
 function createHandwrittenNumberTexture(number: string, darkMode: boolean): THREE.CanvasTexture {
@@ -99,9 +100,9 @@ const StoneStyle: BoardStyle = {
     };
   },
 
-  // 创建数字材质的新方法
+  // 创建数字材质的新方法（手写纹理按数字和主题缓存）
   createNumberMaterial(number: string, darkMode: boolean): THREE.MeshBasicMaterial {
-    const texture = createHandwrittenNumberTexture(number, darkMode);
+    const texture = getStyleTexture('stone', number, darkMode, () => createHandwrittenNumberTexture(number, darkMode));
     return new THREE.MeshBasicMaterial({
       map: texture,
       transparent: true,
@@ -131,6 +132,13 @@ const StoneStyle: BoardStyle = {
     return new THREE.Vector3(0, 12, 0); // 降低相机高度
   },
 
+  getCameraPresets(): CameraPreset[] {
+    return [
+      { name: 'top', label: '俯视', position: new THREE.Vector3(0, 12, 0) },
+      { name: 'tilted', label: '斜视', position: new THREE.Vector3(0, 9, 8) }
+    ];
+  },
+
   getLights(darkMode: boolean): THREE.Light[] {
     const lights: THREE.Light[] = [];
     
@@ -162,6 +170,10 @@ const StoneStyle: BoardStyle = {
 
   getSceneBackground(darkMode: boolean): THREE.Color {
     return new THREE.Color(darkMode ? 0x1a1a1a : 0xf0f0f0); // 调整背景色调
+  },
+
+  dispose() {
+    disposeStyleTextures('stone');
   }
 };
 
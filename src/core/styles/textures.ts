@@ -0,0 +1,28 @@
+import * as THREE from 'three';
+
+// 样式纹理缓存：同一样式、同一符号、同一主题的纹理只绘制一次，切换主题或样式时重复使用
+const textureCache = new Map<string, THREE.Texture>();
+
+const cacheKey = (style: string, symbol: string, darkMode: boolean) =>
+  `${style}|${symbol}|${darkMode ? 'dark' : 'light'}`;
+
+// 取出缓存的纹理，没有时用 create 绘制；纹理归缓存所有，使用它的材质释放时不要释放纹理
+export function getStyleTexture(style: string, symbol: string, darkMode: boolean, create: () => THREE.Texture): THREE.Texture {
+  const key = cacheKey(style, symbol, darkMode);
+  let texture = textureCache.get(key);
+  if (!texture) {
+    texture = create();
+    textureCache.set(key, texture);
+  }
+  return texture;
+}
+
+// 释放样式缓存的所有纹理（样式的 dispose 中调用）
+export function disposeStyleTextures(style: string) {
+  const prefix = `${style}|`;
+  textureCache.forEach((texture, key) => {
+    if (!key.startsWith(prefix)) return;
+    texture.dispose();
+    textureCache.delete(key);
+  });
+}
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
+import helvetikerUrl from 'three/examples/fonts/helvetiker_regular.typeface.json?url';
+import { formatCellValue } from '../../utils/formatter';
+import type { BoardStyle } from '../styles';
+
+// 随应用一起打包的数字字体，离线时也能加载
+export const DIGIT_FONT_URL = helvetikerUrl;
+
+// 3D 棋盘上数字的绘制方式：每个数字一份立体文字几何体、所有数字画在同一张图集纹理上的平面文字，
+// 或样式提供的数字材质（如手写数字）
+export type TextBackendType = 'geometry' | 'atlas' | 'style';
+
+// 数字的颜色：题目数字和玩家填入的数字
+export type TextTone = 'preset' | 'user';
+
+// 格子数超过这个值的棋盘（12×12 及以上、立方体、多宫格）使用图集文字
+export const LARGE_BOARD_CELLS = 81;
+
+// 数字的绘制后端：同一个后端创建的网格共用几何体和材质，由后端统一释放
+export interface TextBackend {
+  readonly type: TextBackendType;
+  // 创建数字 value 的网格，文字平放在 xy 平面上并居中
+  createMesh(value: number, tone: TextTone): THREE.Mesh;
+  dispose(): void;
+}
+
+// 格子多或没有可用字体时使用图集文字
+export const chooseTextBackend = (cellCount: number, hasFont: boolean): TextBackendType =>
+  hasFont && cellCount <= LARGE_BOARD_CELLS ? 'geometry' : 'atlas';
+
+// 数字的颜色：夜间模式用白色和黄色，日间模式用深灰和蓝色
+const toneColor = (tone: TextTone, darkMode: boolean): number =>
+  tone === 'preset' ? (darkMode ? 0xffffff : 0x333333) : (darkMode ? 0xffff00 : 0x1e90ff);
+
+// 立体文字：每种数字只生成一次几何体
+export class GeometryTextBackend implements TextBackend {
+  readonly type = 'geometry';
+  private font: Font;
+  private geometries = new Map<number, THREE.BufferGeometry>();
+  private materials: Record<TextTone, THREE.Material>;
+
+  constructor(font: Font, darkMode: boolean) {
+    this.font = font;
+    const material = (tone: TextTone) => new THREE.MeshPhongMaterial({
+      color: toneColor(tone, darkMode),
+      shininess: 100,
+      specular: 0x222222
+    });
+    this.materials = { preset: material('preset'), user: material('user') };
+  }
+
+  createMesh(value: number, tone: TextTone): THREE.Mesh {
+    return new THREE.Mesh(this.getGeometry(value), this.materials[tone]);
+  }
+
+  dispose(): void {
+    this.geometries.forEach(geometry => geometry.dispose());
+    this.geometries.clear();
+    Object.values(this.materials).forEach(material => material.dispose());
+  }
+
+  private getGeometry(value: number): THREE.BufferGeometry {
+    let geometry = this.geometries.get(value);
+    if (!geometry) {
+      geometry = new TextGeometry(formatCellValue(value), {
+        font: this.font,
+        size: 0.5,
+        height: 0.03,
+        curveSegments: 12,
+        bevelEnabled: true,
+        bevelThickness: 0.015,
+        bevelSize: 0.008,
+        bevelOffset: 0,
+        bevelSegments: 3
+      });
+      geometry.center();
+      this.geometries.set(value, geometry);
+    }
+    return geometry;
+  }
+}
+
+// 图集中每个数字占的像素大小
+const GLYPH_PIXELS = 128;
+
+// 平面文字的边长（与格子边长 1.2 相比）
+const GLYPH_SIZE = 0.8;
+
+// 图集文字：1..maxValue 的字形按网格画在一张纹理上（白色，由材质着色），每种数字一个取对应区域的平面
+export class AtlasTextBackend implements TextBackend {
+  readonly type = 'atlas';
+  private maxValue: number;
+  private texture: THREE.CanvasTexture;
+  private columns: number;
+  private geometries = new Map<number, THREE.BufferGeometry>();
+  private materials: Record<TextTone, THREE.Material>;
+
+  constructor(maxValue: number, darkMode: boolean) {
+    this.maxValue = maxValue;
+    this.columns = Math.ceil(Math.sqrt(maxValue));
+    this.texture = this.createTexture();
+    const material = (tone: TextTone) => new THREE.MeshBasicMaterial({
+      map: this.texture,
+      color: toneColor(tone, darkMode),
+      transparent: true,
+      depthWrite: false
+    });
+    this.materials = { preset: material('preset'), user: material('user') };
+  }
+
+  createMesh(value: number, tone: TextTone): THREE.Mesh {
+    return new THREE.Mesh(this.getGeometry(value), this.materials[tone]);
+  }
+
+  dispose(): void {
+    this.geometries.forEach(geometry => geometry.dispose());
+    this.geometries.clear();
+    Object.values(this.materials).forEach(material => material.dispose());
+    this.texture.dispose();
+  }
+
+  private createTexture(): THREE.CanvasTexture {
+    const rows = Math.ceil(this.maxValue / this.columns);
+    const canvas = document.createElement('canvas');
+    canvas.width = this.columns * GLYPH_PIXELS;
+    canvas.height = rows * GLYPH_PIXELS;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${GLYPH_PIXELS * 0.75}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (let value = 1; value <= this.maxValue; value++) {
+      const index = value - 1;
+      const x = ((index % this.columns) + 0.5) * GLYPH_PIXELS;
+      const y = (Math.floor(index / this.columns) + 0.5) * GLYPH_PIXELS;
+      ctx.fillText(formatCellValue(value), x, y);
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.anisotropy = 4;
+    texture.needsUpdate = true;
+    return texture;
+  }
+
+  // 平面的纹理坐标映射到图集中数字所在的区域（纹理的 v 轴朝上，画布的 y 轴朝下）
+  private getGeometry(value: number): THREE.BufferGeometry {
+    let geometry = this.geometries.get(value);
+    if (!geometry) {
+      const rows = Math.ceil(this.maxValue / this.columns);
+      const index = value - 1;
+      const left = (index % this.columns) / this.columns;
+      const top = 1 - Math.floor(index / this.columns) / rows;
+      geometry = new THREE.PlaneGeometry(GLYPH_SIZE, GLYPH_SIZE);
+      const uv = geometry.attributes.uv as THREE.BufferAttribute;
+      for (let i = 0; i < uv.count; i++) {
+        uv.setXY(i, left + uv.getX(i) / this.columns, top - (1 - uv.getY(i)) / rows);
+      }
+      this.geometries.set(value, geometry);
+    }
+    return geometry;
+  }
+}
+
+// 样式提供的数字材质：画在平面上，每种数字一份材质，共用一个平面；纹理由样式缓存和释放
+export class StyleTextBackend implements TextBackend {
+  readonly type = 'style';
+  private style: BoardStyle;
+  private darkMode: boolean;
+  private geometry = new THREE.PlaneGeometry(GLYPH_SIZE, GLYPH_SIZE);
+  private materials = new Map<number, THREE.Material>();
+
+  constructor(style: BoardStyle, darkMode: boolean) {
+    this.style = style;
+    this.darkMode = darkMode;
+  }
+
+  // 样式的数字材质不区分题目数字和玩家填入的数字
+  createMesh(value: number): THREE.Mesh {
+    let material = this.materials.get(value);
+    if (!material) {
+      material = this.style.createNumberMaterial!(formatCellValue(value), this.darkMode);
+      this.materials.set(value, material);
+    }
+    return new THREE.Mesh(this.geometry, material);
+  }
+
+  dispose(): void {
+    this.geometry.dispose();
+    this.materials.forEach(material => material.dispose());
+    this.materials.clear();
+  }
+}
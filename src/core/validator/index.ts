@@ -1,4 +1,9 @@
 import type { SudokuConfig, ValidationResult } from '../../types/game';
+import { getUnits } from '../geometry';
+import { getRelations, violatesRelation } from '../constraints';
+import { isCageSumBroken } from '../cages';
+import { isArrowSumBroken } from '../lines';
+import { getBoardCols, getBoardRows, isBoardCell } from '../grids';
 
 export class SudokuValidator {
   private config: SudokuConfig;
@@ -10,14 +15,14 @@ export class SudokuValidator {
   validate(board: number[][]): ValidationResult {
     const conflicts: ValidationResult['conflicts'] = [];
 
-    // 检查行
-    for (let row = 0; row < this.config.size; row++) {
+    // 依次检查行、列、子宫格以及变体规则和立方体跨棱的区域
+    for (const unit of getUnits(this.config)) {
       const seen = new Set<number>();
-      for (let col = 0; col < this.config.size; col++) {
+      for (const { row, col } of unit.cells) {
         const value = board[row][col];
         if (value !== 0) {
           if (seen.has(value)) {
-            conflicts.push({ row, col, value, type: 'row' });
+            conflicts.push({ row, col, value, type: unit.type });
           } else {
             seen.add(value);
           }
@@ -25,39 +30,35 @@ export class SudokuValidator {
       }
     }
 
-    // 检查列
-    for (let col = 0; col < this.config.size; col++) {
-      const seen = new Set<number>();
-      for (let row = 0; row < this.config.size; row++) {
+    // 再检查两两相关的格子（无马、无缘、非连续、笼子和线条），每对格子只报告一次
+    const cols = getBoardCols(this.config);
+    for (let row = 0; row < getBoardRows(this.config); row++) {
+      for (let col = 0; col < cols; col++) {
         const value = board[row][col];
-        if (value !== 0) {
-          if (seen.has(value)) {
-            conflicts.push({ row, col, value, type: 'column' });
-          } else {
-            seen.add(value);
+        if (value === 0) continue;
+        for (const relation of getRelations(this.config, row, col)) {
+          const other = board[relation.row][relation.col];
+          if (relation.row * cols + relation.col < row * cols + col) continue;
+          if (other !== 0 && violatesRelation(relation, value, other, this.config.size)) {
+            conflicts.push({ row: relation.row, col: relation.col, value: other, type: relation.rule.type });
           }
         }
       }
     }
 
-    // 检查子宫格
-    for (let boxRow = 0; boxRow < this.config.size; boxRow += this.config.subRows) {
-      for (let boxCol = 0; boxCol < this.config.size; boxCol += this.config.subCols) {
-        const seen = new Set<number>();
-        for (let i = 0; i < this.config.subRows; i++) {
-          for (let j = 0; j < this.config.subCols; j++) {
-            const row = boxRow + i;
-            const col = boxCol + j;
-            const value = board[row][col];
-            if (value !== 0) {
-              if (seen.has(value)) {
-                conflicts.push({ row, col, value, type: 'box' });
-              } else {
-                seen.add(value);
-              }
-            }
-          }
-        }
+    // 杀手数独：笼子的总和必须还能凑出
+    for (const cage of this.config.cages ?? []) {
+      if (!isCageSumBroken(board, cage, this.config.size)) continue;
+      for (const { row, col } of cage.cells) {
+        if (board[row][col] !== 0) conflicts.push({ row, col, value: board[row][col], type: 'cage-sum' });
+      }
+    }
+
+    // 箭头：圆圈中的数字必须等于箭头上的数字之和
+    for (const line of this.config.lines ?? []) {
+      if (line.type !== 'arrow' || !isArrowSumBroken(board, line, this.config.size)) continue;
+      for (const { row, col } of line.cells) {
+        if (board[row][col] !== 0) conflicts.push({ row, col, value: board[row][col], type: 'arrow' });
       }
     }
 
@@ -68,10 +69,10 @@ export class SudokuValidator {
   }
 
   isComplete(board: number[][]): boolean {
-    // 检查是否所有格子都已填写
-    for (let row = 0; row < this.config.size; row++) {
-      for (let col = 0; col < this.config.size; col++) {
-        if (board[row][col] === 0) {
+    // 检查是否所有格子都已填写（多宫格数独的空位除外）
+    for (let row = 0; row < getBoardRows(this.config); row++) {
+      for (let col = 0; col < getBoardCols(this.config); col++) {
+        if (board[row][col] === 0 && isBoardCell(this.config, row, col)) {
           return false;
         }
       }
@@ -84,8 +85,8 @@ export class SudokuValidator {
 
   isSolutionValid(board: number[][], solution: number[][]): boolean {
     // 检查解答是否与给定的解决方案匹配
-    for (let row = 0; row < this.config.size; row++) {
-      for (let col = 0; col < this.config.size; col++) {
+    for (let row = 0; row < getBoardRows(this.config); row++) {
+      for (let col = 0; col < getBoardCols(this.config); col++) {
         if (board[row][col] !== 0 && board[row][col] !== solution[row][col]) {
           return false;
         }
@@ -0,0 +1,32 @@
+import { generateSudoku } from '../generator';
+import type { GenerateRequest, GenerateResponse } from './protocol';
+
+// 进度消息的最小间隔（毫秒），避免消息过多拖慢主线程
+const PROGRESS_INTERVAL = 50;
+
+const post = (message: GenerateResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<GenerateRequest>) => {
+  const { config, seed, jigsaw, killer, lines } = event.data;
+  let lastProgressAt = 0;
+
+  try {
+    const result = generateSudoku(config, {
+      seed,
+      jigsaw,
+      killer,
+      lines,
+      onProgress: progress => {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_INTERVAL) return;
+        lastProgressAt = now;
+        post({ type: 'progress', progress });
+      }
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,85 @@
+import type { GenerationProgress, KillerMode, LineType, SudokuConfig } from '../../types/game';
+import { generateSudoku, type GeneratedPuzzle } from '../generator';
+import type { GenerateRequest, GenerateResponse } from './protocol';
+
+// 生成任务被取消时抛出
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('数独生成已取消');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface AsyncGenerateOptions {
+  seed?: string;
+  jigsaw?: boolean;
+  killer?: KillerMode;
+  lines?: LineType[];
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;
+}
+
+// 在独立的 Worker 中生成数独；每个任务使用一个 Worker，取消时直接终止它
+export function generateSudokuInWorker(
+  config: SudokuConfig,
+  options: AsyncGenerateOptions = {}
+): Promise<GeneratedPuzzle> {
+  const { seed, jigsaw, killer, lines, onProgress, signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new GenerationCancelledError());
+  }
+
+  // 不支持 Worker 的环境退回到主线程生成
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(generateSudoku(config, { seed, jigsaw, killer, lines, onProgress }));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./generator.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new GenerationCancelledError());
+    };
+
+    worker.onmessage = (event: MessageEvent<GenerateResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'result':
+          cleanup();
+          resolve(message.result);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    // 配置可能是响应式代理，转成普通对象才能发送给 Worker
+    const request: GenerateRequest = {
+      type: 'generate',
+      config: JSON.parse(JSON.stringify(config)),
+      seed,
+      jigsaw,
+      killer,
+      lines
+    };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,18 @@
+import type { GenerationProgress, KillerMode, LineType, SudokuConfig } from '../../types/game';
+import type { GeneratedPuzzle } from '../generator';
+
+// 主线程发给生成 Worker 的消息
+export interface GenerateRequest {
+  type: 'generate';
+  config: SudokuConfig;
+  seed?: string;
+  jigsaw?: boolean;
+  killer?: KillerMode;
+  lines?: LineType[];
+}
+
+// 生成 Worker 回传的消息
+export type GenerateResponse =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'result'; result: GeneratedPuzzle }
+  | { type: 'error'; message: string };
@@ -1,5 +1,36 @@
 import { defineStore } from 'pinia';
-import type { GameState, SudokuConfig, ValidationResult } from '../types/game';
+import { getAllCandidates, getCandidates, getConflicts, getEliminations, type UnitConflict } from '../core/geometry';
+import { SudokuValidator } from '../core/validator';
+import { countSolutions, solveExactly } from '../core/dlx';
+import { gradePuzzle } from '../core/grader';
+import { getBoardCells, getBoardCols, getBoardRows, isBoardCell } from '../core/grids';
+import { createHintUsage, findHint } from '../core/hints';
+import { clearAutosave, createSnapshot, loadAutosave, saveAutosave } from '../core/storage';
+import type { ImportedPuzzle } from '../core/io';
+import type {
+  Cage,
+  CellChange,
+  DifficultyGrade,
+  GameSnapshot,
+  GameState,
+  GenerationProgress,
+  HintLevel,
+  HistoryEntry,
+  HistoryTimelineItem,
+  LineClue,
+  SudokuConfig,
+  ValidationResult
+} from '../types/game';
+
+// 创建空的笔记网格
+const createEmptyNotes = (rows: number, cols: number): number[][][] =>
+  Array(rows).fill(0).map(() => Array(cols).fill(0).map(() => []));
+
+// 历史树的根（初始盘面）
+export const HISTORY_ROOT = -1;
+
+// 编辑模式每次改动都会重新数解，每个格子允许的搜索步数，超出时显示无法判断，避免稀疏盘面卡住界面
+const EDITOR_SEARCH_STEPS_PER_CELL = 100;
 
 const DEFAULT_CONFIG: SudokuConfig = {
   size: 9,
@@ -11,137 +42,308 @@ const DEFAULT_CONFIG: SudokuConfig = {
 export const useGameStore = defineStore('game', {
   state: (): GameState => ({
     config: DEFAULT_CONFIG,
+    seed: null,
     board: [],
     solution: [],
     preset: [],
+    notes: [],
+    notesMode: false,
+    grade: null,
     selectedCell: null,
     timer: 0,
     isComplete: false,
-    history: []
+    editorMode: false,
+    isGenerating: false,
+    generationProgress: null,
+    history: [],
+    historyCursor: HISTORY_ROOT,
+    historyRedo: {},
+    hint: null,
+    hintsUsed: createHintUsage()
   }),
 
   actions: {
     initGame(config: SudokuConfig = DEFAULT_CONFIG) {
       this.config = config;
-      this.board = Array(config.size).fill(0).map(() => Array(config.size).fill(0));
+      this.seed = null;
+      const rows = getBoardRows(config);
+      const cols = getBoardCols(config);
+      this.board = Array(rows).fill(0).map(() => Array(cols).fill(0));
       this.solution = [];
-      this.preset = Array(config.size).fill(0).map(() => Array(config.size).fill(false));
+      this.preset = Array(rows).fill(0).map(() => Array(cols).fill(false));
+      this.notes = createEmptyNotes(rows, cols);
+      this.grade = null;
       this.selectedCell = null;
       this.timer = 0;
       this.isComplete = false;
-      this.history = [];
+      this.editorMode = false;
+      this.hint = null;
+      this.hintsUsed = createHintUsage();
+      this.clearHistory();
     },
 
     // 设置生成的数独数据
-    setPuzzleData(puzzleData: { puzzle: number[][], solution: number[][], preset: boolean[][] }) {
+    setPuzzleData(puzzleData: { puzzle: number[][], solution: number[][], preset: boolean[][], grade?: DifficultyGrade, seed?: string, regions?: number[][], cages?: Cage[], lines?: LineClue[] }) {
+      if (puzzleData.regions) {
+        this.config = { ...this.config, regions: puzzleData.regions };
+      }
+      if (puzzleData.cages) {
+        this.config = { ...this.config, cages: puzzleData.cages };
+      }
+      if (puzzleData.lines) {
+        this.config = { ...this.config, lines: puzzleData.lines };
+      }
       this.board = puzzleData.puzzle;
       this.solution = puzzleData.solution;
       this.preset = puzzleData.preset;
+      this.notes = createEmptyNotes(puzzleData.puzzle.length, puzzleData.puzzle[0].length);
+      this.grade = puzzleData.grade ?? null;
+      this.seed = puzzleData.seed ?? null;
       this.selectedCell = null;
       this.isComplete = false;
-      this.history = [];
+      this.editorMode = false;
+      this.hint = null;
+      this.hintsUsed = createHintUsage();
+      this.clearHistory();
     },
 
-    setCell(row: number, col: number, value: number) {
-      if (row < 0 || row >= this.config.size || col < 0 || col >= this.config.size) return;
-      
-      // 检查是否为预设格子（题目数字），如果是则不允许修改
-      if (this.preset[row] && this.preset[row][col]) {
-        return;
+    // 载入导入的题目（已通过校验和唯一解证明），保留其中的进度和笔记
+    loadImportedPuzzle(imported: ImportedPuzzle) {
+      this.initGame(imported.config);
+      this.setPuzzleData({
+        puzzle: imported.puzzle,
+        solution: imported.solution,
+        preset: imported.preset,
+        grade: imported.grade,
+        seed: imported.seed
+      });
+      this.board = imported.board;
+      if (imported.notes) {
+        this.notes = imported.notes;
       }
-      
-      // 保存历史记录
-      this.history.push({
-        board: JSON.parse(JSON.stringify(this.board)),
-        timestamp: Date.now()
+      this.checkComplete();
+    },
+
+    // 进入自定义题目模式：从空棋盘开始，输入的数字都作为题目数字
+    startEditor(config?: SudokuConfig) {
+      this.initGame({ ...(config ?? this.config) });
+      this.editorMode = true;
+      this.notesMode = false;
+    },
+
+    // 结束编辑并开始游戏；只有解唯一时才会成功
+    finishEditor(): boolean {
+      if (!this.editorMode || this.editorSolutionCount !== 1) return false;
+
+      const puzzle = this.board.map(row => [...row]);
+      const grade = gradePuzzle(puzzle, this.config);
+      this.config = { ...this.config, difficulty: grade.difficulty };
+      this.setPuzzleData({
+        puzzle,
+        solution: solveExactly(puzzle, this.config)!,
+        preset: puzzle.map(row => row.map(value => value !== 0)),
+        grade
       });
+      this.timer = 0;
+      return true;
+    },
+
+    // 当前游戏的存档
+    toSnapshot(): GameSnapshot {
+      return createSnapshot(this);
+    },
 
-      this.board[row][col] = value;
+    // 从存档恢复游戏
+    restoreSnapshot(snapshot: GameSnapshot) {
+      this.config = snapshot.config;
+      this.seed = snapshot.seed;
+      this.board = snapshot.board;
+      this.solution = snapshot.solution;
+      this.preset = snapshot.preset;
+      this.notes = snapshot.notes;
+      this.grade = snapshot.grade;
+      this.timer = snapshot.timer;
+      this.history = snapshot.history;
+      this.historyCursor = snapshot.historyCursor;
+      this.historyRedo = snapshot.historyRedo;
+      this.hintsUsed = snapshot.hintsUsed;
+      this.hint = null;
+      this.selectedCell = null;
+      this.editorMode = false;
       this.checkComplete();
     },
 
-    // 检查特定位置是否有冲突
-    hasConflictAt(row: number, col: number): boolean {
-      // 安全检查：确保board已初始化且索引有效
-      if (!this.board || !this.board[row] || row < 0 || row >= this.config.size || col < 0 || col >= this.config.size) {
-        return false;
+    // 恢复上次未完成的游戏，成功时返回 true
+    restoreSavedGame(): boolean {
+      const snapshot = loadAutosave();
+      if (!snapshot) return false;
+      this.restoreSnapshot(snapshot);
+      return true;
+    },
+
+    // 自动保存当前游戏；生成题目期间不保存，已完成的游戏清除存档
+    autosave() {
+      if (this.isGenerating || this.solution.length === 0) return;
+      if (this.isComplete) {
+        clearAutosave();
+        return;
       }
-      
-      const value = this.board[row][col];
-      if (value === 0) return false;
+      saveAutosave(this.toSnapshot());
+    },
 
-      // 检查行冲突
-      for (let c = 0; c < this.config.size; c++) {
-        if (c !== col && this.board[row][c] === value) {
-          return true;
-        }
+    // 题目生成状态（生成在 Worker 中进行，期间棋盘显示加载状态）
+    startGenerating() {
+      this.isGenerating = true;
+      this.generationProgress = null;
+    },
+
+    updateGenerationProgress(progress: GenerationProgress) {
+      this.generationProgress = progress;
+    },
+
+    finishGenerating() {
+      this.isGenerating = false;
+      this.generationProgress = null;
+    },
+
+    setCell(row: number, col: number, value: number) {
+      if (!isBoardCell(this.config, row, col)) return;
+      
+      // 检查是否为预设格子（题目数字），如果是则不允许修改
+      if (!this.editorMode && this.preset[row] && this.preset[row][col]) {
+        return;
       }
+      
+      const previous = this.board[row][col];
+      if (previous === value) return;
 
-      // 检查列冲突
-      for (let r = 0; r < this.config.size; r++) {
-        if (r !== row && this.board[r][col] === value) {
-          return true;
+      const change: CellChange = { row, col, from: previous, to: value };
+      const changes = [change];
+      if (value !== 0) {
+        // 填入数字后清除该格笔记，并从同区域及变体规则相关格子的笔记中移除不再可能的数字
+        if (this.notes[row][col].length > 0) {
+          change.notesFrom = this.notes[row][col];
+          change.notesTo = [];
         }
+        const cols = getBoardCols(this.config);
+        const removed = new Map<number, Set<number>>();
+        for (const elimination of getEliminations(this.config, row, col, value)) {
+          const key = elimination.row * cols + elimination.col;
+          if (!removed.has(key)) removed.set(key, new Set());
+          removed.get(key)!.add(elimination.value);
+        }
+        removed.forEach((values, key) => {
+          const peerRow = Math.floor(key / cols);
+          const peerCol = key % cols;
+          const peerNotes = this.notes[peerRow][peerCol];
+          if (peerNotes.some(note => values.has(note))) {
+            changes.push(this.notesChange(peerRow, peerCol, peerNotes.filter(note => !values.has(note))));
+          }
+        });
       }
 
-      // 检查子宫格冲突
-      const startRow = row - (row % this.config.subRows);
-      const startCol = col - (col % this.config.subCols);
-      
-      for (let i = 0; i < this.config.subRows; i++) {
-        for (let j = 0; j < this.config.subCols; j++) {
-          const r = startRow + i;
-          const c = startCol + j;
-          if ((r !== row || c !== col) && this.board[r][c] === value) {
-            return true;
-          }
-        }
+      this.commitChanges(changes);
+      this.checkComplete();
+    },
+
+    // 切换格子中的一个笔记数字（只对空格有效）
+    toggleNote(row: number, col: number, value: number) {
+      if (!isBoardCell(this.config, row, col)) return;
+      if (this.editorMode || this.preset[row]?.[col] || this.board[row][col] !== 0) return;
+      if (value < 1 || value > this.config.size) return;
+
+      const cellNotes = this.notes[row][col];
+      this.commitChanges([this.notesChange(row, col, cellNotes.includes(value)
+        ? cellNotes.filter(note => note !== value)
+        : [...cellNotes, value].sort((a, b) => a - b))]);
+    },
+
+    clearNotes(row: number, col: number) {
+      if (this.notes[row]?.[col]?.length) {
+        this.commitChanges([this.notesChange(row, col, [])]);
       }
+    },
 
-      return false;
+    toggleNotesMode() {
+      this.notesMode = !this.notesMode;
+    },
+
+    // 检查特定位置是否有冲突
+    hasConflictAt(row: number, col: number): boolean {
+      return this.getConflictCells(row, col).length > 0;
     },
 
     // 获取与指定位置冲突的格子
-    getConflictCells(row: number, col: number): Array<{row: number, col: number, type: 'row' | 'column' | 'box'}> {
+    getConflictCells(row: number, col: number): UnitConflict[] {
       // 安全检查：确保board已初始化且索引有效
-      if (!this.board || !this.board[row] || row < 0 || row >= this.config.size || col < 0 || col >= this.config.size) {
+      if (!this.board || !this.board[row] || !isBoardCell(this.config, row, col)) {
         return [];
       }
       
-      const value = this.board[row][col];
-      if (value === 0) return [];
+      return getConflicts(this.board, this.config, row, col, this.board[row][col]);
+    },
 
-      const conflicts: Array<{row: number, col: number, type: 'row' | 'column' | 'box'}> = [];
+    // 根据当前盘面为所有空格填入合法候选数
+    fillCandidates() {
+      if (!this.board.length || this.editorMode) return;
 
-      // 检查行冲突
-      for (let c = 0; c < this.config.size; c++) {
-        if (c !== col && this.board[row][c] === value) {
-          conflicts.push({ row, col: c, type: 'row' });
+      const candidates = getAllCandidates(this.board, this.config);
+      const changes: CellChange[] = [];
+      for (const { row, col } of getBoardCells(this.config)) {
+        if (candidates[row][col].join() !== this.notes[row][col].join()) {
+          changes.push(this.notesChange(row, col, candidates[row][col]));
         }
       }
+      this.commitChanges(changes);
+    },
 
-      // 检查列冲突
-      for (let r = 0; r < this.config.size; r++) {
-        if (r !== row && this.board[r][col] === value) {
-          conflicts.push({ row: r, col, type: 'column' });
-        }
-      }
+    // 只改变笔记的格子变化
+    notesChange(row: number, col: number, notes: number[]): CellChange {
+      const value = this.board[row][col];
+      return { row, col, from: value, to: value, notesFrom: this.notes[row][col], notesTo: notes };
+    },
 
-      // 检查子宫格冲突
-      const startRow = row - (row % this.config.subRows);
-      const startCol = col - (col % this.config.subCols);
-      
-      for (let i = 0; i < this.config.subRows; i++) {
-        for (let j = 0; j < this.config.subCols; j++) {
-          const r = startRow + i;
-          const c = startCol + j;
-          if ((r !== row || c !== col) && this.board[r][c] === value) {
-            conflicts.push({ row: r, col: c, type: 'box' });
-          }
+    // 应用一组格子变化；reverse 为 true 时按相反顺序恢复原状态
+    applyChanges(changes: CellChange[], reverse = false) {
+      // 数字变化后提示不再适用（只改笔记时保留）
+      if (changes.some(change => change.from !== change.to)) {
+        this.hint = null;
+      }
+      const ordered = reverse ? [...changes].reverse() : changes;
+      for (const change of ordered) {
+        const value = reverse ? change.from : change.to;
+        this.board[change.row][change.col] = value;
+        // 编辑模式下填入的数字就是题目数字
+        if (this.editorMode) {
+          this.preset[change.row][change.col] = value !== 0;
+        }
+        const notes = reverse ? change.notesFrom : change.notesTo;
+        if (notes) {
+          this.notes[change.row][change.col] = [...notes];
         }
       }
+    },
 
-      return conflicts;
+    // 执行并记录一步操作：从当前位置长出新分支，撤销掉的旧步骤保留为另一条分支
+    commitChanges(changes: CellChange[]) {
+      if (changes.length === 0) return;
+
+      const entry: HistoryEntry = {
+        id: this.history.length,
+        parent: this.historyCursor,
+        changes,
+        timestamp: Date.now()
+      };
+      this.history.push(entry);
+      this.historyRedo[entry.parent] = entry.id;
+      this.historyCursor = entry.id;
+      this.applyChanges(changes);
+    },
+
+    clearHistory() {
+      this.history = [];
+      this.historyCursor = HISTORY_ROOT;
+      this.historyRedo = {};
     },
 
     selectCell(row: number, col: number) {
@@ -149,14 +351,16 @@ export const useGameStore = defineStore('game', {
     },
 
     checkComplete() {
+      // 编辑题目时不判定完成
+      if (this.editorMode) {
+        this.isComplete = false;
+        return;
+      }
+
       // 检查是否所有格子都已填写
-      for (let row = 0; row < this.config.size; row++) {
-        for (let col = 0; col < this.config.size; col++) {
-          if (this.board[row][col] === 0) {
-            this.isComplete = false;
-            return;
-          }
-        }
+      if (getBoardCells(this.config).some(({ row, col }) => this.board[row][col] === 0)) {
+        this.isComplete = false;
+        return;
       }
 
       // 检查数独规则是否满足
@@ -165,74 +369,108 @@ export const useGameStore = defineStore('game', {
     },
 
     undo() {
-      const lastState = this.history.pop();
-      if (lastState) {
-        this.board = lastState.board;
-      }
+      const entry = this.history[this.historyCursor];
+      if (!entry) return;
+
+      this.applyChanges(entry.changes, true);
+      this.historyCursor = entry.parent;
+      this.historyRedo[entry.parent] = entry.id;
+      this.checkComplete();
     },
 
-    updateTimer() {
-      this.timer++;
+    // 重做：沿最近走过的分支前进一步
+    redo() {
+      const entry = this.history[this.historyRedo[this.historyCursor]];
+      if (!entry) return;
+
+      this.applyChanges(entry.changes);
+      this.historyCursor = entry.id;
+      this.checkComplete();
     },
 
-    validateBoard(): ValidationResult {
-      const conflicts: Array<{row: number, col: number, value: number, type: 'row' | 'column' | 'box'}> = [];
-
-      // 检查每行
-      for (let row = 0; row < this.config.size; row++) {
-        const seen = new Set<number>();
-        for (let col = 0; col < this.config.size; col++) {
-          const value = this.board[row][col];
-          if (value !== 0) {
-            if (seen.has(value)) {
-              conflicts.push({ row, col, value, type: 'row' });
-            } else {
-              seen.add(value);
-            }
-          }
-        }
+    // 跳转到历史树中的任意一步（可以在另一条分支上）
+    jumpToHistory(id: number) {
+      if (id !== HISTORY_ROOT && !this.history[id]) return;
+
+      // 先撤销到当前位置与目标的公共祖先
+      const ancestors = new Set<number>([HISTORY_ROOT]);
+      for (let node = id; node !== HISTORY_ROOT; node = this.history[node].parent) {
+        ancestors.add(node);
+      }
+      while (!ancestors.has(this.historyCursor)) {
+        this.undo();
       }
 
-      // 检查每列
-      for (let col = 0; col < this.config.size; col++) {
-        const seen = new Set<number>();
-        for (let row = 0; row < this.config.size; row++) {
-          const value = this.board[row][col];
-          if (value !== 0) {
-            if (seen.has(value)) {
-              conflicts.push({ row, col, value, type: 'column' });
-            } else {
-              seen.add(value);
-            }
-          }
-        }
+      // 再沿目标所在的分支重做下去
+      const path: number[] = [];
+      for (let node = id; node !== this.historyCursor; node = this.history[node].parent) {
+        path.unshift(node);
+      }
+      for (const node of path) {
+        this.historyRedo[this.history[node].parent] = node;
+        this.redo();
       }
+    },
 
-      // 检查每个子宫格
-      for (let boxRow = 0; boxRow < this.config.size; boxRow += this.config.subRows) {
-        for (let boxCol = 0; boxCol < this.config.size; boxCol += this.config.subCols) {
-          const seen = new Set<number>();
-          for (let i = 0; i < this.config.subRows; i++) {
-            for (let j = 0; j < this.config.subCols; j++) {
-              const row = boxRow + i;
-              const col = boxCol + j;
-              const value = this.board[row][col];
-              if (value !== 0) {
-                if (seen.has(value)) {
-                  conflicts.push({ row, col, value, type: 'box' });
-                } else {
-                  seen.add(value);
-                }
-              }
-            }
-          }
+    // 请求提示：已有提示时揭示下一层，否则查找新的提示并显示第一层；每揭示一层记一次。
+    // 第 3 层之后再请求时执行这一步，下次请求得到新的提示
+    requestHint(): boolean {
+      if (this.editorMode || this.isComplete || this.isGenerating) return false;
+
+      if (!this.hint) {
+        this.hint = findHint(this.board, this.solution, this.config, this.notes);
+        if (!this.hint) return false;
+      } else if (this.hint.level < 3) {
+        this.hint = { ...this.hint, level: (this.hint.level + 1) as HintLevel };
+      } else {
+        this.applyHint();
+        return true;
+      }
+      this.hintsUsed[this.hint.level]++;
+      return true;
+    },
+
+    // 执行当前提示：清除填错的数字、填入数字，或在笔记中删去候选数（没有笔记的格子先写入全部候选数）
+    applyHint() {
+      const hint = this.hint;
+      if (!hint) return;
+      this.hint = null;
+
+      if (hint.kind === 'mistake') {
+        this.commitChanges(hint.targets.map(({ row, col }) => ({ row, col, from: this.board[row][col], to: 0 })));
+        this.checkComplete();
+        return;
+      }
+      const placement = hint.placement ?? hint.step?.placement;
+      if (placement) {
+        this.setCell(placement.row, placement.col, placement.value);
+        return;
+      }
+
+      const changes: CellChange[] = [];
+      for (const { row, col } of hint.targets) {
+        const eliminated = hint.step!.eliminations
+          .filter(item => item.row === row && item.col === col)
+          .map(item => item.value);
+        const notes = this.notes[row][col].length > 0 ? this.notes[row][col] : getCandidates(this.board, this.config, row, col);
+        const remaining = notes.filter(note => !eliminated.includes(note));
+        if (remaining.join() !== this.notes[row][col].join()) {
+          changes.push(this.notesChange(row, col, remaining));
         }
       }
+      this.commitChanges(changes);
+    },
 
-      return {
-        isValid: conflicts.length === 0,
-        conflicts: conflicts.length > 0 ? conflicts : undefined
-      };
+    clearHint() {
+      this.hint = null;
+    },
+
+    updateTimer() {
+      this.timer++;
+    },
+
+    validateBoard(): ValidationResult {
+      return new SudokuValidator(this.config).validate(this.board);
     }
   },
 
@@ -243,8 +481,50 @@ export const useGameStore = defineStore('game', {
       return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
     },
 
+    // 编辑模式下题目的解的个数：0 无解，1 唯一解，2 表示多解，null 表示限定步数内没能数完（盘面太空或规则太多）
+    editorSolutionCount(): number | null {
+      if (!this.editorMode || !this.board.length) return 0;
+      if (!new SudokuValidator(this.config).validate(this.board).isValid) return 0;
+      return countSolutions(this.board, this.config, 2, getBoardCells(this.config).length * EDITOR_SEARCH_STEPS_PER_CELL);
+    },
+
+    // 本局使用过的提示总数（各层分别计数）
+    hintCount(): number {
+      return this.hintsUsed[1] + this.hintsUsed[2] + this.hintsUsed[3];
+    },
+
     canUndo(): boolean {
-      return this.history.length > 0;
+      return this.historyCursor !== HISTORY_ROOT;
+    },
+
+    canRedo(): boolean {
+      return this.historyRedo[this.historyCursor] !== undefined;
+    },
+
+    // 当前分支的时间线：从初始盘面到当前步骤，再接上可以重做的步骤
+    historyTimeline(): HistoryTimelineItem[] {
+      const children = new Map<number, number[]>();
+      for (const entry of this.history) {
+        const siblings = children.get(entry.parent) ?? [];
+        siblings.push(entry.id);
+        children.set(entry.parent, siblings);
+      }
+
+      const done: HistoryEntry[] = [];
+      for (let node = this.historyCursor; node !== HISTORY_ROOT; node = this.history[node].parent) {
+        done.unshift(this.history[node]);
+      }
+      const undone: HistoryEntry[] = [];
+      for (let node = this.historyRedo[this.historyCursor]; node !== undefined; node = this.historyRedo[node]) {
+        undone.push(this.history[node]);
+      }
+
+      return [...done, ...undone].map(entry => ({
+        entry,
+        current: entry.id === this.historyCursor,
+        undone: undone.includes(entry),
+        branches: children.get(entry.parent) ?? [entry.id]
+      }));
     }
   }
 });
\ No newline at end of file
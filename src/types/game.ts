@@ -1,32 +1,209 @@
-export type Difficulty = 'easy' | 'medium' | 'hard';
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert' | 'diabolical';
 
 export interface SudokuConfig {
   size: number;          // 棋盘边长 n
   subRows: number;       // 子宫格行数
   subCols: number;       // 子宫格列数
   difficulty: Difficulty;
+  regions?: number[][];  // 不规则区域（锯齿数独）：每个格子所属区域的编号 0..n-1，缺省时为 subRows×subCols 矩形宫
+  constraints?: VariantConstraint[]; // 额外启用的变体规则
+  cages?: Cage[];        // 杀手数独的笼子
+  lines?: LineClue[];    // 线条规则（温度计、箭头等）
+  cube?: boolean;        // 立方体数独：六个面各是一个 n×n 数独，依次纵向存放在 6n×n 的盘面中
+  layout?: MultiGridLayout; // 多宫格数独：几个 9×9 数独重叠摆放，盘面为覆盖它们的稀疏画布
 }
 
+// 多宫格数独的布局：双连、蝴蝶、花朵、僧兵、武士
+export type MultiGridLayout = 'twodoku' | 'butterfly' | 'flower' | 'sohei' | 'samurai';
+
+// 杀手数独的笼子：笼内数字不重复，且总和等于 sum
+export interface Cage {
+  cells: CellPosition[];
+  sum: number;
+}
+
+// 线条规则：温度计、箭头、回文线、德式耳语线、连续线
+export type LineType = 'thermo' | 'arrow' | 'palindrome' | 'whisper' | 'renban';
+
+// 棋盘上的一条线，cells 沿线排列且首尾相接：温度计从球端开始，箭头的第一格是圆圈
+export interface LineClue {
+  type: LineType;
+  cells: CellPosition[];
+}
+
+// 变体规则：对角线不重复、马步不同数、王步不同数、上下左右不连续
+export type VariantConstraint = 'diagonal' | 'anti-knight' | 'anti-king' | 'non-consecutive';
+
+// 杀手数独的模式：带提示数，或只有笼子没有提示数
+export type KillerMode = 'givens' | 'pure';
+
+// 可能被违反的规则：行、列、宫以及各种变体规则
+export type ConstraintType = UnitType | VariantConstraint | LineType | 'cage' | 'cage-sum';
+
 export interface ValidationResult {
   isValid: boolean;
   conflicts?: {
     row: number;
     col: number;
     value: number;
-    type: 'row' | 'column' | 'box';
+    type: ConstraintType;
   }[];
 }
 
+// 格子坐标
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// 逻辑求解技巧（按人类解题的常见难度排序）
+export type SolvingTechnique =
+  | 'naked-single'   // 唯一余数
+  | 'hidden-single'  // 隐性唯一
+  | 'cage-combination' // 笼子组合
+  | 'line-constraint' // 线条推理
+  | 'pointing'       // 宫区块排除
+  | 'claiming'       // 行列区块排除
+  | 'naked-pair'     // 显性数对
+  | 'hidden-pair'    // 隐性数对
+  | 'naked-triple'   // 显性三数组
+  | 'hidden-triple'  // 隐性三数组
+  | 'x-wing'
+  | 'xy-wing'
+  | 'swordfish';
+
+export type UnitType = 'row' | 'column' | 'box' | 'diagonal' | 'cube-edge';
+
+// 候选数删减
+export interface CandidateElimination extends CellPosition {
+  value: number;
+}
+
+// 逻辑求解的一步
+export interface SolveStep {
+  technique: SolvingTechnique;
+  cells: CellPosition[];     // 构成该技巧的关键格子
+  values: number[];          // 涉及的数字
+  unit?: { type: UnitType; index: number }; // 技巧所在的区域（如有）
+  placement?: CellPosition & { value: number };
+  eliminations: CandidateElimination[];
+}
+
+// 提示的层次：1 标出可以推进的区域，2 说出要用的技巧，3 给出具体的填数或删减
+export type HintLevel = 1 | 2 | 3;
+
+// 提示的来源：逻辑技巧的下一步、填错的数字，或现有技巧无法推进时直接按答案给出一格
+export type HintKind = 'technique' | 'mistake' | 'answer';
+
+// 渐进式提示：同一处推理按层次逐步揭示
+export interface Hint {
+  kind: HintKind;
+  level: HintLevel;
+  region: CellPosition[];   // 可以推进的区域，从第 1 层起高亮
+  step?: SolveStep;         // kind 为 technique 时的下一步推理
+  targets: CellPosition[];  // 第 3 层高亮的格子：要填数或删减候选数的格子、填错的格子
+  placement?: CellPosition & { value: number }; // kind 为 answer 时按答案给出的填数
+}
+
+// 各层提示的使用次数
+export type HintUsage = Record<HintLevel, number>;
+
+export interface SolveResult {
+  solved: boolean;
+  board: number[][];
+  steps: SolveStep[];
+}
+
+// 按逻辑求解过程评定的难度
+export interface DifficultyGrade {
+  difficulty: Difficulty;
+  hardestTechnique: SolvingTechnique | null; // 用到的最难技巧
+  score: number;          // 所有步骤的技巧权重之和
+  steps: number;
+  solvedLogically: boolean;
+}
+
+// 题目生成进度
+export interface GenerationProgress {
+  attempt: number;          // 当前是第几次尝试（从 1 开始）
+  maxAttempts: number;
+  cellsRemoved: number;     // 本次尝试已挖空的格子数
+  totalCells: number;
+  uniquenessChecks: number; // 累计完成的唯一解检查次数
+}
+
+// 一个格子的变化：数值的前后状态，笔记有变化时附带笔记的前后状态
+export interface CellChange {
+  row: number;
+  col: number;
+  from: number;
+  to: number;
+  notesFrom?: number[];
+  notesTo?: number[];
+}
+
+// 历史树中的一步操作，parent 为 -1 表示从初始盘面出发
+export interface HistoryEntry {
+  id: number;
+  parent: number;
+  changes: CellChange[];
+  timestamp: number;
+}
+
+// 历史时间线上的一项（当前分支从头到尾）
+export interface HistoryTimelineItem {
+  entry: HistoryEntry;
+  current: boolean;   // 当前所在的步骤
+  undone: boolean;    // 已撤销、可以重做的步骤
+  branches: number[]; // 同一位置上的所有分支（含自身），按创建顺序
+}
+
 export interface GameState {
   config: SudokuConfig;
+  seed: string | null; // 生成题目所用的随机种子，可用于复现题目
   board: number[][];
   solution: number[][];
   preset: boolean[][]; // 标记哪些格子是题目预设的（不可修改）
+  notes: number[][][];  // 每个格子的笔记（候选数），按数字升序
+  notesMode: boolean;   // 笔记模式下输入数字只切换候选数
+  grade: DifficultyGrade | null;
   selectedCell: { row: number; col: number } | null;
   timer: number;
   isComplete: boolean;
-  history: {
-    board: number[][];
-    timestamp: number;
-  }[];
+  editorMode: boolean;  // 自定义题目：输入的数字都作为题目数字
+  isGenerating: boolean;
+  generationProgress: GenerationProgress | null;
+  history: HistoryEntry[];          // 历史树的所有节点，id 即下标
+  historyCursor: number;            // 当前所在的历史节点，-1 表示初始盘面
+  historyRedo: Record<number, number>; // 每个节点重做时进入的子节点（最近走过的分支）
+  hint: Hint | null;                // 当前显示的提示，盘面数字变化后失效
+  hintsUsed: HintUsage;             // 本局各层提示的使用次数
+}
+
+// 需要持久化的游戏状态
+export type PersistedGameState = Pick<
+  GameState,
+  'config' | 'seed' | 'board' | 'solution' | 'preset' | 'notes' | 'grade' | 'timer' | 'history' | 'historyCursor' | 'historyRedo' | 'hintsUsed'
+>;
+
+// 存档：version 用于在 GameState 变化后升级旧存档
+export interface GameSnapshot extends PersistedGameState {
+  version: number;
+  savedAt: number;
+}
+
+// 存档槽位的摘要信息，用于在存档列表中展示
+export interface SaveSlot {
+  id: string;
+  name: string;
+  size: number;
+  subRows: number;
+  subCols: number;
+  difficulty: Difficulty;
+  timer: number;
+  thumbnail: string;  // 缩略图：逐格记录数字（base36，0 表示空格）
+  cols?: number;      // 缩略图的列数，缺省时为 size（多宫格数独的盘面比 size 宽）
+  createdAt: number;
+  updatedAt: number;  // 最近一次保存（游玩）的时间
+  compacted: boolean; // 空间不足时去掉了撤销历史
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+// 格式化数字显示（大于9的数字用字母表示）
+export function formatCellValue(value: number): string {
+  if (value <= 9) return value.toString();
+  return String.fromCharCode(65 + value - 10); // A=10, B=11, etc.
+}
+
+// 格式化格子坐标，例如 R3C5
+export function formatCellPosition(row: number, col: number): string {
+  return `R${row + 1}C${col + 1}`;
+}
+
+// 解析键盘输入：1-9、A-G（对应 10-16）返回数字，删除键返回 0，其他返回 null
+export function parseCellKey(key: string, maxValue: number): number | null {
+  if (key === 'Delete' || key === 'Backspace' || key === '0') return 0;
+
+  let value: number | null = null;
+  if (key >= '1' && key <= '9' && key.length === 1) {
+    value = parseInt(key);
+  } else if (/^[a-gA-G]$/.test(key)) {
+    value = key.toUpperCase().charCodeAt(0) - 65 + 10; // A=10, B=11, etc.
+  }
+
+  return value !== null && value <= maxValue ? value : null;
+}
+
+// 格式化用时，例如 05:07
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+}